@@ -8,6 +8,75 @@
 import { ExperimentRunner } from './run-experiment.js';
 import { StatsigAPI } from './lib/statsig-api.js';
 import { runPreflight } from './lib/preflight.js';
+import { getStringFlag, parseArgs, type CLIFlags } from './lib/cli-args.js';
+import { writeExperimentTypes } from './lib/experiment-types-generator.js';
+import { ContractWizard } from './lib/contract-wizard.js';
+import { listTemplates, resolveTemplate, TEMPLATE_DIR } from './lib/contract-templates.js';
+import {
+  CONTRACT_DIR,
+  findContractFile,
+  listContractFiles,
+  loadContractFile,
+  migrateContractFile,
+  writeContractJsonSchema,
+  type ContractFileMigration,
+} from './lib/contract-loader.js';
+import {
+  createStatsigBackend,
+  resolveBackendKind,
+  setStatsigBackend,
+  type StatsigBackend,
+  type StatsigTargetingRule,
+} from './lib/statsig-backend.js';
+import {
+  analyzeExperimentResults,
+  controlVariantKey,
+  formatResultsMarkdown,
+  formatResultsTable,
+  treatmentVariantKeys,
+} from './lib/experiment-results.js';
+import { analyzeEvents, findDefaultEventLog, readEventLog, toPulseResults } from './lib/analysis/index.js';
+import {
+  formatPowerPlan,
+  impliedVariance,
+  planExperimentPower,
+  powerOptionsFromEvents,
+  type PowerOptions,
+} from './lib/power.js';
+import {
+  formatRolloutSchedule,
+  loadRolloutState,
+  nextStep,
+  rolloutDay,
+  rolloutDayStart,
+  saveRolloutState,
+  scheduledStep,
+} from './lib/rollout.js';
+import { RunJournal } from './lib/run-journal.js';
+import { evaluateGuardrails, formatGuardrailEvaluation, GuardrailLog } from './lib/guardrails.js';
+import { diffExperimentConfig, diffGateConfig, formatConfigDiff, type ConfigDifference } from './lib/config-drift.js';
+import {
+  collectExperiments,
+  filterExperiments,
+  formatExperimentCsv,
+  formatExperimentTable,
+} from './lib/experiment-inventory.js';
+import type { ExperimentContract, FeatureGate } from './lib/contract-schema.js';
+
+/**
+ * Flags that never take a value
+ */
+const BOOLEAN_FLAGS = ['help', 'resume', 'dry-run', 'all', 'bonferroni', 'no-bonferroni', 'once', 'merge', 'json', 'csv'];
+
+/**
+ * Output formats of the results command
+ */
+const RESULTS_FORMATS = ['table', 'json', 'markdown'];
+
+/**
+ * Commands that operate on all contracts rather than one experiment
+ */
+const KEYLESS_COMMANDS = ['list', 'types', 'schema'];
 
 /**
  * CLI command handler
@@ -16,16 +85,16 @@ class ExperimentCLI {
   private runner: ExperimentRunner;
   private statsigAPI: StatsigAPI;
 
-  constructor() {
-    this.runner = new ExperimentRunner();
-    this.statsigAPI = new StatsigAPI();
+  constructor(backend?: StatsigBackend) {
+    this.runner = new ExperimentRunner(backend);
+    this.statsigAPI = new StatsigAPI(backend);
   }
 
   /**
    * Main CLI entry point
    */
-  async run(args: string[]): Promise<void> {
-    const command = args[0];
+  async run(args: string[], flags: CLIFlags = {}): Promise<void> {
+    const command = flags.help ? 'help' : args[0];
     const experimentKey = args[1];
 
     if (!command) {
@@ -33,16 +102,25 @@ class ExperimentCLI {
       return;
     }
 
-    if (!experimentKey && command !== 'list') {
+    if (!experimentKey && !KEYLESS_COMMANDS.includes(command) && !(command === 'migrate' && flags.all)) {
       console.error('❌ Experiment key is required');
       this.showHelp();
-      process.exit(1);
+      process.exitCode = 1;
+      return;
     }
 
     try {
       switch (command) {
+        case 'init':
+          await new ContractWizard(process.cwd()).run(experimentKey);
+          console.log(`💡 Next: npm run experiment create ${experimentKey} -- --dry-run`);
+          break;
+          
         case 'create':
-          await this.runner.runExperiment(experimentKey, args[2]);
+          await this.runner.runExperiment(experimentKey, args[2], {
+            resume: flags.resume === true,
+            dryRun: flags['dry-run'] === true,
+          });
           break;
           
         case 'verify':
@@ -61,12 +139,64 @@ class ExperimentCLI {
           await this.stopExperiment(experimentKey);
           break;
           
+        case 'rollback':
+          await this.rollbackExperiment(experimentKey);
+          break;
+          
+        case 'ship':
+          await this.shipExperiment(experimentKey, flags);
+          break;
+          
+        case 'results':
+          await this.showResults(experimentKey, flags);
+          break;
+          
+        case 'watch':
+          await this.watchExperiment(experimentKey, flags);
+          break;
+          
+        case 'power':
+          this.showPower(experimentKey, flags);
+          break;
+          
+        case 'diff':
+          await this.diffExperiment(experimentKey);
+          break;
+          
+        case 'sync':
+          await this.syncExperiment(experimentKey);
+          break;
+          
+        case 'gate':
+          await this.showGates(experimentKey);
+          break;
+          
         case 'preflight':
           await this.runPreflight(experimentKey);
           break;
           
         case 'list':
-          await this.listExperiments();
+          await this.listExperiments(flags);
+          break;
+          
+        case 'types':
+          this.generateTypes();
+          break;
+          
+        case 'schema':
+          this.generateSchema();
+          break;
+          
+        case 'template':
+          this.runTemplateCommand(args[1], args[2]);
+          break;
+          
+        case 'rollout':
+          await this.runRolloutCommand(args[1], args[2], flags);
+          break;
+          
+        case 'migrate':
+          this.migrateContracts(flags.all === true ? undefined : experimentKey);
           break;
           
         case 'help':
@@ -78,11 +208,12 @@ class ExperimentCLI {
         default:
           console.error(`❌ Unknown command: ${command}`);
           this.showHelp();
-          process.exit(1);
+          process.exitCode = 1;
       }
     } catch (error) {
+      // Set the exit code rather than exiting so main() can still close the backend
       console.error(`❌ Command failed: ${error}`);
-      process.exit(1);
+      process.exitCode = 1;
     }
   }
 
@@ -94,11 +225,10 @@ class ExperimentCLI {
     
     try {
       // Check if contract exists
-      const contractPath = `contract/${experimentKey}.json`;
-      const fs = await import('fs');
+      const contractPath = findContractFile(process.cwd(), experimentKey);
       
-      if (!fs.existsSync(contractPath)) {
-        throw new Error(`Contract file not found: ${contractPath}`);
+      if (!contractPath) {
+        throw new Error(`Contract file not found: contract/${experimentKey}.{json,yaml,contract.ts}`);
       }
       console.log(`✅ Contract file found: ${contractPath}`);
 
@@ -136,9 +266,16 @@ class ExperimentCLI {
     console.log(`📊 Experiment status for: ${experimentKey}`);
     
     try {
-      const status = await this.statsigAPI.getExperimentStatus(experimentKey);
+      const experiment = await this.statsigAPI.getExperiment(experimentKey);
       
-      console.log(`\n📈 Statsig Status: ${status}`);
+      console.log(`\n📈 Statsig Status: ${experiment.status || 'unknown'}`);
+      if (typeof experiment.allocation === 'number') {
+        console.log(`👥 Allocation: ${experiment.allocation}%`);
+      }
+
+      const rules: StatsigTargetingRule[] = Array.isArray(experiment.rules) ? experiment.rules : [];
+      console.log(rules.length > 0 ? `🎯 Targeting rules:` : `🎯 Targeting rules: none (all users eligible)`);
+      rules.forEach(rule => console.log(`  - ${this.describeRule(rule)}`));
       
       // Show branch status
       const branchName = `exp/${experimentKey}`;
@@ -191,6 +328,542 @@ class ExperimentCLI {
     }
   }
 
+  /**
+   * Undo a partially or fully applied experiment
+   */
+  private async rollbackExperiment(experimentKey: string): Promise<void> {
+    const actions = await this.runner.rollbackExperiment(experimentKey);
+    const failed = actions.filter(action => action.status === 'failed');
+
+    if (failed.length > 0) {
+      throw new Error(`${failed.length} rollback action(s) failed`);
+    }
+    console.log(`✅ Rollback completed for: ${experimentKey}`);
+  }
+
+  /**
+   * Make the winning variant the default and conclude the experiment
+   */
+  private async shipExperiment(experimentKey: string, flags: CLIFlags): Promise<void> {
+    const variant = getStringFlag(flags, 'variant');
+    if (!variant) {
+      throw new Error('--variant <key> is required (the variant to ship)');
+    }
+
+    await this.runner.shipExperiment(experimentKey, variant, {
+      reason: getStringFlag(flags, 'reason'),
+      merge: flags.merge === true,
+    });
+  }
+
+  /**
+   * Report lift, confidence intervals and p-values for every contract metric
+   */
+  private async showResults(experimentKey: string, flags: CLIFlags): Promise<void> {
+    const output = getStringFlag(flags, 'output');
+    const format = getStringFlag(flags, 'format') ||
+      (output?.endsWith('.json') ? 'json' : output?.endsWith('.md') ? 'markdown' : 'table');
+
+    if (!RESULTS_FORMATS.includes(format)) {
+      throw new Error(`Unknown results format '${format}'. Use one of: ${RESULTS_FORMATS.join(', ')}`);
+    }
+
+    const contractPath = findContractFile(process.cwd(), experimentKey);
+    if (!contractPath) {
+      throw new Error(`Contract file not found: contract/${experimentKey}.{json,yaml,contract.ts}`);
+    }
+    const { contract } = loadContractFile(process.cwd(), contractPath);
+    const eventLog = getStringFlag(flags, 'events');
+    const pulses = await this.fetchPulses(contract, eventLog);
+
+    const report = analyzeExperimentResults(contract, pulses, {
+      bonferroni: flags['no-bonferroni'] ? false : flags.bonferroni ? true : undefined,
+      method: eventLog ? 'welch' : 'z',
+    });
+    const rendered = format === 'json'
+      ? `${JSON.stringify(report, null, 2)}\n`
+      : format === 'markdown' ? formatResultsMarkdown(report) : formatResultsTable(report);
+
+    if (output) {
+      const { writeFileSync } = await import('fs');
+      writeFileSync(output, format === 'table' ? `${rendered}\n` : rendered);
+      console.log(formatResultsTable(report));
+      console.log(`\n✅ Wrote ${format} results to ${output}`);
+    } else {
+      console.log(rendered.replace(/\n$/, ''));
+    }
+
+    if (report.metrics.every(metric => metric.verdict === 'no_data')) {
+      console.log(`\n⚠️  No pulse results yet for ${experimentKey}`);
+    }
+  }
+
+  /**
+   * Contract and how its configuration differs from the experiment in Statsig
+   */
+  private async compareWithStatsig(experimentKey: string): Promise<{ contract: ExperimentContract; differences: ConfigDifference[] }> {
+    const contractPath = findContractFile(process.cwd(), experimentKey);
+    if (!contractPath) {
+      throw new Error(`Contract file not found: contract/${experimentKey}.{json,yaml,contract.ts}`);
+    }
+    const { contract } = loadContractFile(process.cwd(), contractPath);
+    const experiment = await this.statsigAPI.getExperiment(experimentKey);
+
+    // With a rollout schedule the allocation belongs to 'rollout tick', not the contract
+    const expected = contract.rolloutSchedule && typeof experiment.allocation === 'number'
+      ? { ...contract, allocation: experiment.allocation }
+      : contract;
+
+    const differences = diffExperimentConfig(this.statsigAPI.buildContractConfig(expected), experiment);
+    for (const gate of contract.gates) {
+      differences.push(...(await this.gateDifferences(gate)));
+    }
+
+    return { contract: expected, differences };
+  }
+
+  /**
+   * How a contract gate differs from Statsig, with fields prefixed by `gates.<name>`
+   */
+  private async gateDifferences(gate: FeatureGate): Promise<ConfigDifference[]> {
+    const actual = await this.statsigAPI.getGate(gate.name);
+    if (!actual) {
+      return [{ field: `gates.${gate.name}`, contract: 'declared', statsig: undefined }];
+    }
+    return diffGateConfig(this.statsigAPI.buildGateConfig(gate), actual)
+      .map(difference => ({ ...difference, field: `gates.${gate.name}.${difference.field}` }));
+  }
+
+  /**
+   * Show fields changed in Statsig since the experiment was created from its contract
+   */
+  private async diffExperiment(experimentKey: string): Promise<void> {
+    console.log(`🔍 Comparing contract with Statsig: ${experimentKey}`);
+    const { differences } = await this.compareWithStatsig(experimentKey);
+
+    if (differences.length === 0) {
+      console.log(`✅ Statsig matches the contract`);
+      return;
+    }
+
+    console.log(`\n⚠️  ${differences.length} field(s) differ:\n`);
+    formatConfigDiff(differences).forEach(line => console.log(`  ${line}`));
+    console.log(`\n💡 Run 'npm run experiment sync ${experimentKey}' to apply the contract, or update the contract`);
+  }
+
+  /**
+   * Push the contract to Statsig as the source of truth
+   */
+  private async syncExperiment(experimentKey: string): Promise<void> {
+    console.log(`🔄 Syncing Statsig with contract: ${experimentKey}`);
+    const { contract, differences } = await this.compareWithStatsig(experimentKey);
+
+    if (differences.length === 0) {
+      console.log(`✅ Statsig already matches the contract`);
+      return;
+    }
+
+    formatConfigDiff(differences).forEach(line => console.log(`  ${line}`));
+    for (const gate of contract.gates) {
+      await this.statsigAPI.upsertGate(gate);
+    }
+    await this.statsigAPI.syncExperiment(experimentKey, contract);
+
+    const remaining = (await this.compareWithStatsig(experimentKey)).differences;
+    if (remaining.length > 0) {
+      console.log(`\n⚠️  Still differs after sync (the layer can only be set when the experiment is created):`);
+      formatConfigDiff(remaining).forEach(line => console.log(`  ${line}`));
+    }
+  }
+
+  /**
+   * Show the contract's gates, where code checks them and their state in Statsig
+   */
+  private async showGates(experimentKey: string): Promise<void> {
+    const contractPath = findContractFile(process.cwd(), experimentKey);
+    if (!contractPath) {
+      throw new Error(`Contract file not found: contract/${experimentKey}.{json,yaml,contract.ts}`);
+    }
+    const { contract } = loadContractFile(process.cwd(), contractPath);
+    const targetingGate = this.statsigAPI.targetingGateID(contract);
+
+    console.log(`🚦 Feature gates for: ${experimentKey}`);
+    if (targetingGate) {
+      console.log(`🔗 Experiment targeting gate: ${targetingGate}`);
+    }
+    if (contract.gates.length === 0) {
+      console.log(`\n⚠️  ${contractPath} declares no gates`);
+      return;
+    }
+
+    for (const gate of contract.gates) {
+      const config = this.statsigAPI.buildGateConfig(gate);
+      const usages = contract.codeChanges.filter(codeChange => codeChange.gate === gate.name);
+
+      console.log(`\n${gate.name}${gate.description ? ` - ${gate.description}` : ''}`);
+      console.log(`  Passes ${gate.passPercentage}% of ${gate.rules.length > 0 ? 'users matching a rule' : 'users'}`);
+      config.rules.forEach(rule => console.log(`    - ${this.describeRule(rule)}`));
+      console.log(`  Code: ${usages.length > 0
+        ? usages.map(codeChange => `${codeChange.function} (${codeChange.file})`).join(', ')
+        : 'not checked by any code change'}`);
+
+      const actual = await this.statsigAPI.getGate(gate.name);
+      const differences = actual ? diffGateConfig(config, actual) : [];
+      if (!actual) {
+        console.log(`  Statsig: ❌ missing (created by 'experiment create' or 'experiment sync')`);
+      } else if (differences.length === 0) {
+        console.log(`  Statsig: ✅ in sync`);
+      } else {
+        console.log(`  Statsig: ⚠️  ${differences.length} field(s) differ (run 'npm run experiment sync ${experimentKey}')`);
+        formatConfigDiff(differences).forEach(line => console.log(`    ${line}`));
+      }
+    }
+  }
+
+  /**
+   * One Statsig rule as a console line
+   */
+  private describeRule(rule: StatsigTargetingRule): string {
+    const conditions = rule.conditions
+      .map(condition => (condition.type === 'public'
+        ? 'everyone'
+        : `${condition.field || condition.type} ${condition.operator} [${condition.targetValue.join(', ')}]`))
+      .join(' AND ');
+    return `${rule.name} (${rule.passPercentage}%, ${(rule.environments || []).join('/') || 'all environments'}): ${conditions}`;
+  }
+
+  /**
+   * Pulse results per treatment variant, from Statsig or a local event log
+   */
+  private async fetchPulses(contract: ExperimentContract, eventLog?: string): Promise<Record<string, unknown>> {
+    const controlKey = controlVariantKey(contract);
+    const pulses: Record<string, unknown> = {};
+
+    if (eventLog) {
+      // Analyze an exported event log locally instead of asking Statsig
+      const { events, skipped } = readEventLog(eventLog);
+      const analysis = analyzeEvents(contract, events);
+      const exposed = Object.keys(analysis.exposedUsers).map(key => `${key}=${analysis.exposedUsers[key]}`);
+      console.error(`🔍 ${events.length} events from ${eventLog}; exposed users: ${exposed.join(', ')}`);
+      if (skipped > 0) console.error(`⚠️  Skipped ${skipped} row(s) without an event name or user ID`);
+      if (analysis.conflictingUsers > 0) {
+        console.error(`⚠️  Excluded ${analysis.conflictingUsers} user(s) exposed to more than one variant`);
+      }
+      Object.keys(analysis.unknownVariants).forEach(variant => {
+        console.error(`⚠️  ${analysis.unknownVariants[variant]} exposure(s) to unknown variant '${variant}'`);
+      });
+      return toPulseResults(analysis, controlKey);
+    }
+
+    // Statsig groups are keyed by variant key; holdouts and disabled variants have no pulse
+    for (const variantKey of treatmentVariantKeys(contract)) {
+      pulses[variantKey] = await this.statsigAPI.getExperimentResults(contract.experimentKey, controlKey, variantKey);
+    }
+    return pulses;
+  }
+
+  /**
+   * Periodically check guardrail metrics and stop the experiment on a regression
+   */
+  private async watchExperiment(experimentKey: string, flags: CLIFlags): Promise<void> {
+    const contractPath = findContractFile(process.cwd(), experimentKey);
+    if (!contractPath) {
+      throw new Error(`Contract file not found: contract/${experimentKey}.{json,yaml,contract.ts}`);
+    }
+    const { contract } = loadContractFile(process.cwd(), contractPath);
+    if (contract.guardrailMetrics.length === 0) {
+      throw new Error(`${contractPath} has no guardrailMetrics to watch`);
+    }
+
+    const intervalText = getStringFlag(flags, 'interval') || '60';
+    const intervalMinutes = parseFloat(intervalText);
+    if (!(intervalMinutes > 0)) {
+      throw new Error(`--interval must be a positive number of minutes (got '${intervalText}')`);
+    }
+
+    const log = GuardrailLog.load(process.cwd(), experimentKey);
+    if (log.decision?.action === 'stopped') {
+      console.log(`⏭️  Already stopped by a guardrail at ${log.decision.at}: ${log.decision.reason}`);
+      return;
+    }
+
+    const dryRun = flags['dry-run'] === true;
+    console.log(`👀 Watching ${contract.guardrailMetrics.length} guardrail metric(s) of ${experimentKey}` +
+      (flags.once ? '' : ` every ${intervalMinutes} minute(s)`) + (dryRun ? ' (dry run)' : ''));
+
+    for (;;) {
+      const status = await this.statsigAPI.getExperimentStatus(experimentKey);
+      if (status !== 'active') {
+        console.log(`⏭️  Experiment is ${status}, nothing to watch`);
+        return;
+      }
+
+      const evaluation = evaluateGuardrails(
+        contract,
+        await this.fetchPulses(contract, getStringFlag(flags, 'events')),
+        log.runningPValues()
+      );
+      log.recordCheck(evaluation);
+      console.log(`\n🔍 ${new Date().toISOString()}`);
+      formatGuardrailEvaluation(evaluation).forEach(line => console.log(`   ${line}`));
+
+      if (evaluation.breaches.length > 0) {
+        const reason = evaluation.breaches
+          .map(breach => `${breach.metric} regressed beyond -${breach.threshold}% in ${breach.variant}`)
+          .join('; ');
+
+        if (dryRun) {
+          log.recordDecision('dry_run', reason, evaluation.breaches);
+          console.log(`\n⚠️  Would stop ${experimentKey}: ${reason}`);
+        } else {
+          await this.statsigAPI.stopExperiment(experimentKey);
+          log.recordDecision('stopped', reason, evaluation.breaches);
+          console.log(`\n⏹️  Stopped ${experimentKey}: ${reason}`);
+        }
+        console.log(`📝 Decision logged to ${log.path}`);
+        return;
+      }
+
+      if (flags.once) return;
+      await new Promise(resolve => setTimeout(resolve, intervalMinutes * 60 * 1000));
+    }
+  }
+
+  /**
+   * Required sample size and duration for the contract's hypothesized lift
+   */
+  private showPower(experimentKey: string, flags: CLIFlags): void {
+    const contractPath = findContractFile(process.cwd(), experimentKey);
+    if (!contractPath) {
+      throw new Error(`Contract file not found: contract/${experimentKey}.{json,yaml,contract.ts}`);
+    }
+    const { contract } = loadContractFile(process.cwd(), contractPath);
+
+    const readNumber = (name: string): number | undefined => {
+      const value = getStringFlag(flags, name);
+      if (value === undefined) return undefined;
+      const parsed = parseFloat(value);
+      if (!isFinite(parsed)) throw new Error(`--${name} must be a number (got '${value}')`);
+      return parsed;
+    };
+
+    const eventLog = getStringFlag(flags, 'events') || findDefaultEventLog(process.cwd());
+    const options: PowerOptions = eventLog
+      ? powerOptionsFromEvents(contract, readEventLog(eventLog).events, eventLog)
+      : { baselines: {} };
+
+    // Flags override what the event log measured
+    const baseline = readNumber('baseline');
+    const stddev = readNumber('stddev');
+    if (baseline !== undefined) {
+      contract.primaryMetrics.forEach(metric => {
+        const variance = stddev !== undefined ? stddev ** 2 : impliedVariance(metric, baseline);
+        if (variance === undefined) {
+          throw new Error(`--stddev is required with --baseline for ${metric.type} metric '${metric.name}'`);
+        }
+        options.baselines[metric.name] = { mean: baseline, variance, source: '--baseline' };
+      });
+    }
+    options.dailyUsers = readNumber('daily-users') ?? options.dailyUsers;
+    options.power = readNumber('power');
+
+    console.log(formatPowerPlan(planExperimentPower(contract, options)));
+  }
+
+  /**
+   * Regenerate the typed experiment parameter module
+   */
+  private generateTypes(): void {
+    const { path, experimentKeys } = writeExperimentTypes(process.cwd());
+    console.log(`✅ Generated ${path} for ${experimentKeys.length} experiment(s): ${experimentKeys.join(', ')}`);
+  }
+
+  /**
+   * Write the contract JSON Schema for editors
+   */
+  private generateSchema(): void {
+    const file = writeContractJsonSchema(process.cwd());
+    console.log(`✅ Wrote ${file}`);
+    console.log(`💡 Reference it from a contract with "$schema": "./contract.schema.json"`);
+  }
+
+  /**
+   * List templates or show one (with its own `extends` chain applied)
+   */
+  private runTemplateCommand(subcommand: string, name?: string): void {
+    if (subcommand === 'list') {
+      const templates = listTemplates(process.cwd());
+      if (templates.length === 0) {
+        console.log(`⚠️  No templates found in ${TEMPLATE_DIR}/`);
+        return;
+      }
+
+      console.log(`📐 Contract templates (${TEMPLATE_DIR}/):`);
+      templates.forEach(template => {
+        console.log(`\n  ${template.name}${template.extends ? ` (extends ${template.extends})` : ''}`);
+        if (template.description) console.log(`    ${template.description}`);
+        console.log(`    Sets: ${template.fields.join(', ')}`);
+      });
+      console.log(`\n💡 Use one with "extends": "<name>" in a contract`);
+      return;
+    }
+
+    if (subcommand === 'show' && name) {
+      console.log(JSON.stringify(resolveTemplate(process.cwd(), name), null, 2));
+      return;
+    }
+
+    throw new Error('Usage: experiment template list | experiment template show <name>');
+  }
+
+  /**
+   * Apply (tick) or show gradual rollout schedules
+   */
+  private async runRolloutCommand(subcommand: string, experimentKey: string | undefined, flags: CLIFlags): Promise<void> {
+    const nowText = getStringFlag(flags, 'now');
+    const now = nowText ? new Date(nowText) : new Date();
+    if (isNaN(now.getTime())) {
+      throw new Error(`--now must be a date or ISO timestamp (got '${nowText}')`);
+    }
+
+    if (subcommand === 'tick') {
+      // Without a key, tick every contract that has a schedule (e.g. from cron)
+      const keys = experimentKey
+        ? [experimentKey]
+        : listContractFiles(process.cwd())
+          .map(file => loadContractFile(process.cwd(), file).contract)
+          .filter(contract => contract.rolloutSchedule)
+          .map(contract => contract.experimentKey);
+
+      if (keys.length === 0) {
+        console.log('⚠️  No contracts with a rolloutSchedule');
+        return;
+      }
+      for (const key of keys) {
+        await this.rolloutTick(key, now, flags['dry-run'] === true);
+      }
+      return;
+    }
+
+    if (subcommand === 'show' && experimentKey) {
+      const { contract, startedAt } = this.loadRollout(experimentKey);
+      const day = startedAt ? rolloutDay(startedAt, now) : undefined;
+      console.log(`📈 Rollout schedule for ${experimentKey}` +
+        (startedAt ? ` (started ${startedAt.slice(0, 10)}, day ${day})` : ' (not started)'));
+      formatRolloutSchedule(contract.rolloutSchedule!, day, startedAt).forEach(line => console.log(`  ${line}`));
+      return;
+    }
+
+    throw new Error('Usage: experiment rollout tick [<key>] [--now <date>] | experiment rollout show <key>');
+  }
+
+  /**
+   * Contract with a rollout schedule and the schedule's start, when known
+   */
+  private loadRollout(experimentKey: string): { contract: ExperimentContract; startedAt?: string } {
+    const contractPath = findContractFile(process.cwd(), experimentKey);
+    if (!contractPath) {
+      throw new Error(`Contract file not found: contract/${experimentKey}.{json,yaml,contract.ts}`);
+    }
+    const { contract } = loadContractFile(process.cwd(), contractPath);
+    if (!contract.rolloutSchedule) {
+      throw new Error(`${contractPath} has no rolloutSchedule`);
+    }
+
+    const startStep = RunJournal.load(process.cwd(), experimentKey)?.getStep('start');
+    const startedAt = contract.rolloutSchedule.startDate
+      ? new Date(contract.rolloutSchedule.startDate).toISOString()
+      : loadRolloutState(process.cwd(), experimentKey).startedAt ||
+        (startStep?.status === 'completed' ? startStep.completedAt : undefined);
+
+    return { contract, startedAt };
+  }
+
+  /**
+   * Move one experiment's allocation to the step scheduled for `now`; no-op when already there
+   */
+  private async rolloutTick(experimentKey: string, now: Date, dryRun: boolean): Promise<void> {
+    const { contract, startedAt: scheduledStart } = this.loadRollout(experimentKey);
+    const schedule = contract.rolloutSchedule!;
+    const experiment = await this.statsigAPI.getExperiment(experimentKey);
+
+    if (experiment.status !== 'active') {
+      console.log(`⏭️  ${experimentKey} is ${experiment.status}; rollouts only move active experiments`);
+      return;
+    }
+
+    // The first tick of a running experiment without a known start begins the schedule
+    const state = loadRolloutState(process.cwd(), experimentKey);
+    const startedAt = scheduledStart || now.toISOString();
+    if (!scheduledStart && !dryRun) {
+      state.startedAt = startedAt;
+      saveRolloutState(process.cwd(), state);
+    }
+
+    const day = rolloutDay(startedAt, now);
+    const step = scheduledStep(schedule, day);
+    const upcoming = nextStep(schedule, day);
+    const next = upcoming
+      ? `; next: ${upcoming.allocation}% on ${rolloutDayStart(startedAt, upcoming.day).toISOString().slice(0, 10)} (day ${upcoming.day})`
+      : '';
+
+    if (!step) {
+      console.log(`⏭️  ${experimentKey}: day ${day} is before the first rollout step${next}`);
+      return;
+    }
+
+    const current = typeof experiment.allocation === 'number' ? experiment.allocation : undefined;
+    if (current === step.allocation) {
+      console.log(`✅ ${experimentKey}: day ${day}, already at ${step.allocation}%${next}`);
+      return;
+    }
+
+    if (dryRun) {
+      console.log(`🔍 ${experimentKey}: day ${day}, would move allocation ${current ?? '?'}% → ${step.allocation}%${next}`);
+      return;
+    }
+
+    // Only the allocation moves; groups and rules edited since creation are kept
+    await this.statsigAPI.updateAllocation(experimentKey, step.allocation);
+    state.ticks.push({ at: now.toISOString(), day, from: current, allocation: step.allocation });
+    saveRolloutState(process.cwd(), state);
+    console.log(`📈 ${experimentKey}: day ${day}, allocation ${current ?? '?'}% → ${step.allocation}%${next}`);
+  }
+
+  /**
+   * Upgrade one contract (or all of them) to the current schema version
+   */
+  private migrateContracts(experimentKey?: string): void {
+    const files = experimentKey
+      ? [findContractFile(process.cwd(), experimentKey) || `${CONTRACT_DIR}/${experimentKey}.json`]
+      : listContractFiles(process.cwd());
+    const results: ContractFileMigration[] = [];
+    const failures: string[] = [];
+
+    files.forEach(file => {
+      try {
+        results.push(migrateContractFile(process.cwd(), file));
+      } catch (error) {
+        failures.push(`${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+
+    console.log(`\n🔄 Contract migration summary:`);
+    results.forEach(result => {
+      if (result.changes.length === 0) {
+        console.log(`  ⏭️  ${result.file}: already at schema v${result.toVersion}`);
+        return;
+      }
+      console.log(`  ✅ ${result.file}: v${result.fromVersion} → v${result.toVersion} (backup: ${result.backup})`);
+      result.changes.forEach(change => console.log(`      - ${change}`));
+    });
+    failures.forEach(failure => console.error(`  ❌ ${failure}`));
+
+    if (failures.length > 0) {
+      throw new Error(`${failures.length} contract(s) could not be migrated`);
+    }
+  }
+
   /**
    * Run preflight validation
    */
@@ -209,50 +882,47 @@ class ExperimentCLI {
   }
 
   /**
-   * List all experiments
+   * List contracts, exp/* branches and Statsig experiments as one table
    */
-  private async listExperiments(): Promise<void> {
-    console.log(`📋 Listing all experiments...`);
-    
-    try {
-      // List contract files
-      const fs = await import('fs');
-      const path = await import('path');
-      
-      const contractDir = 'contract';
-      if (fs.existsSync(contractDir)) {
-        const files = fs.readdirSync(contractDir)
-          .filter(file => file.endsWith('.json'))
-          .map(file => path.basename(file, '.json'));
-        
-        console.log(`\n📝 Contract files found:`);
-        files.forEach(key => {
-          console.log(`  - ${key}`);
-        });
-      } else {
-        console.log(`⚠️  No contract directory found`);
-      }
+  private async listExperiments(flags: CLIFlags): Promise<void> {
+    const machineReadable = flags.json === true || flags.csv === true;
+    if (!machineReadable) {
+      console.log(`📋 Listing all experiments...`);
+    }
 
-      // List git branches
-      const { execSync } = await import('child_process');
-      
-      try {
-        const branches = execSync('git branch -a', { encoding: 'utf8' })
-          .split('\n')
-          .filter(branch => branch.includes('exp/'))
-          .map(branch => branch.trim().replace('* ', '').replace('remotes/origin/', ''));
-        
-        console.log(`\n🌿 Experiment branches:`);
-        branches.forEach(branch => {
-          console.log(`  - ${branch}`);
-        });
-      } catch {
-        console.log(`⚠️  Could not list git branches`);
-      }
-      
+    let statsigExperiments: Array<Record<string, any>> | undefined;
+    try {
+      statsigExperiments = await this.statsigAPI.listExperiments();
     } catch (error) {
-      console.error(`❌ Failed to list experiments: ${error}`);
-      throw error;
+      console.error(`⚠️  Could not list Statsig experiments, drift is not checked: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const listings = filterExperiments(collectExperiments(process.cwd(), statsigExperiments), {
+      status: getStringFlag(flags, 'status'),
+      tag: getStringFlag(flags, 'tag'),
+    });
+
+    if (flags.json === true) {
+      console.log(JSON.stringify(listings, null, 2));
+      return;
+    }
+    if (flags.csv === true) {
+      process.stdout.write(formatExperimentCsv(listings));
+      return;
+    }
+
+    if (listings.length === 0) {
+      console.log(`\n⚠️  No experiments found`);
+      return;
+    }
+    console.log(`\n${formatExperimentTable(listings)}`);
+
+    listings.filter(entry => entry.contractError).forEach(entry => {
+      console.log(`\n❌ ${entry.contractFile}: ${entry.contractError}`);
+    });
+    const drifted = listings.filter(entry => entry.drift.length > 0);
+    if (drifted.length > 0) {
+      console.log(`\n⚠️  ${drifted.length} experiment(s) out of sync between contract/ and Statsig`);
     }
   }
 
@@ -267,27 +937,88 @@ Usage:
   npm run experiment <command> [experiment-key] [options]
 
 Commands:
+  init <key>                    Interactively create contract/<key>.json
   create <key> [contract-path]  Create and deploy a new experiment
+    --resume                    Continue a failed run from its journal
+    --dry-run                   Preview code changes as a diff; no git, Vercel or Statsig
   verify <key>                  Verify experiment setup
   status <key>                  Show experiment status
   start <key>                   Start an experiment
   stop <key>                    Stop an experiment
+  rollback <key>                Undo code, branch, preview and Statsig changes
+  ship <key> --variant <key>    Make a variant the default in code, open a PR and conclude
+                                the experiment; deletes exp/<key> once the PR is merged
+    --reason <text>             Decision reason for Statsig and the PR
+    --merge                     Merge the PR immediately
+  results <key>                 Lift, confidence intervals and p-values per metric
+    --format <table|json|markdown>  Output format (default: table)
+    --output <file>             Also write the report (format from --format or extension)
+    --bonferroni / --no-bonferroni  Override the contract's statsig.bonferroniCorrection
+    --events <file.ndjson>      Analyze an exported event log locally instead of Statsig
+  watch <key>                   Stop the experiment when a guardrail metric regresses
+    --interval <minutes>        Time between checks (default: 60)
+    --once                      Check once and exit
+    --events <file.ndjson>      Read metrics from an event log instead of Statsig
+    --dry-run                   Log the decision without stopping
+  power <key>                   Sample size per variant and duration for the hypothesized lift
+    --events <file.ndjson>      Baselines and daily users from an event log
+                                (default: EXPERIMENT_EVENT_LOG or .experiments/events.ndjson)
+    --baseline <n> [--stddev <n>]  Baseline of the primary metric(s) instead
+    --daily-users <n>           Eligible users per day
+    --power <0-1>               Desired power (default: 0.8)
+  diff <key>                    Field-by-field differences between the contract and Statsig
+  sync <key>                    Overwrite the Statsig experiment and gates with the contract
+  gate <key>                    Show the contract's feature gates, their code and Statsig state
   preflight <key>               Run preflight validation
-  list                          List all experiments
+  list                          Contracts, exp/* branches and Statsig experiments in one table,
+                                flagging drift between contract/ and Statsig
+    --status <status>           Only experiments with this status (draft for contract-only)
+    --tag <tag>                 Only experiments with this tag
+    --json / --csv              Machine-readable output
+  types                         Generate src/lib/experiments.generated.ts from contracts
+  schema                        Write contract/contract.schema.json for editors
+  migrate <key> | --all         Upgrade contracts to the current schema version
+  template list | show <name>   List or inspect contract/templates/
+  rollout tick [<key>]          Move allocation to today's rolloutSchedule step (all
+                                scheduled contracts without a key); safe to repeat
+    --now <date>                Evaluate the schedule at another time
+    --dry-run                   Show the change without applying it
+  rollout show <key>            Show the schedule and the step in effect
   help                          Show this help message
 
+Options:
+  --backend <mcp|console|fake>  Statsig backend (default: STATSIG_BACKEND or mcp)
+
 Examples:
+  npm run experiment init button_color
   npm run experiment create prime_banner
   npm run experiment create button_color contracts/button_test.json
   npm run experiment verify prime_banner
   npm run experiment status prime_banner
   npm run experiment start prime_banner
   npm run experiment stop prime_banner
+  npm run experiment rollback prime_banner
+  npm run experiment ship prime_banner -- --variant treatment
+  npm run experiment results prime_banner -- --format markdown
+  npm run experiment watch prime_banner -- --interval 30
+  npm run experiment power prime_banner -- --baseline 0.1 --stddev 0.3 --daily-users 2000
+  npm run experiment diff prime_banner
+  npm run experiment sync prime_banner
+  npm run experiment gate prime_banner
   npm run experiment preflight prime_banner
   npm run experiment list
+  npm run experiment list -- --status active --csv
+  npm run experiment types
+  npm run experiment schema
+  npm run experiment migrate -- --all
+  npm run experiment template show branch-based
+  npm run experiment rollout tick prime_banner -- --now 2025-01-08
+  npm run experiment create prime_banner -- --backend fake
+  npm run experiment create prime_banner -- --resume
+  npm run experiment create prime_banner -- --dry-run
 
 Workflow:
-  1. Create contract JSON in contract/<key>.json
+  1. Run 'init' (or write contract/<key>.json by hand)
   2. Run 'create' command to deploy experiment
   3. Verify setup with 'verify' command
   4. Start experiment with 'start' command
@@ -307,14 +1038,26 @@ Branch Strategy:
  * Main entry point
  */
 async function main() {
-  const args = process.argv.slice(2);
-  const cli = new ExperimentCLI();
-  await cli.run(args);
+  const { positionals, flags } = parseArgs(process.argv.slice(2), BOOLEAN_FLAGS);
+  const backend = createStatsigBackend(resolveBackendKind(flags.backend));
+  setStatsigBackend(backend);
+
+  const cli = new ExperimentCLI(backend);
+
+  try {
+    await cli.run(positionals, flags);
+  } finally {
+    await backend.close();
+  }
 }
 
 // Run if called directly
 if (import.meta.url === `file://${process.argv[1]}`) {
-  main().catch(console.error);
+  main().catch(error => {
+    // e.g. an unknown --backend or a backend missing its credentials
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  });
 }
 
 export { ExperimentCLI };
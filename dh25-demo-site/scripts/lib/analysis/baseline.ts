@@ -0,0 +1,55 @@
+/**
+ * Baseline Estimation
+ * Pre-experiment metric baselines and traffic from an event log
+ */
+
+import type { PrimaryMetric } from '../contract-schema.js';
+import type { LoggedEvent } from './events.js';
+import type { ExposedUser } from './exposures.js';
+import { metricDefinition, summarizeMetric, type VariantMetricSummary } from './metrics.js';
+
+/**
+ * Treat every user in the log as exposed at their first event
+ */
+function allUsers(events: LoggedEvent[]): ExposedUser[] {
+  const users: Record<string, ExposedUser> = {};
+
+  events.forEach(event => {
+    const user = users[event.userId] || (users[event.userId] = {
+      userId: event.userId,
+      variant: 'baseline',
+      exposedAt: event.timestamp,
+      events: [],
+    });
+    if (event.timestamp !== undefined && (user.exposedAt === undefined || event.timestamp < user.exposedAt)) {
+      user.exposedAt = event.timestamp;
+    }
+    user.events.push(event);
+  });
+
+  return Object.keys(users).sort().map(userId => users[userId]);
+}
+
+/**
+ * Baseline value and variance of a metric over every user in the log
+ */
+export function metricBaseline(metric: PrimaryMetric, events: LoggedEvent[]): VariantMetricSummary | undefined {
+  return summarizeMetric(metricDefinition(metric), allUsers(events));
+}
+
+/**
+ * Average distinct users per UTC day (undefined without timestamps)
+ */
+export function dailyActiveUsers(events: LoggedEvent[]): number | undefined {
+  const usersByDay: Record<string, Record<string, true>> = {};
+
+  events.forEach(event => {
+    if (event.timestamp === undefined) return;
+    const day = new Date(event.timestamp).toISOString().slice(0, 10);
+    (usersByDay[day] || (usersByDay[day] = {}))[event.userId] = true;
+  });
+
+  const days = Object.keys(usersByDay);
+  if (days.length === 0) return undefined;
+  return days.reduce((sum, day) => sum + Object.keys(usersByDay[day]).length, 0) / days.length;
+}
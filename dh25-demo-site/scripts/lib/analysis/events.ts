@@ -0,0 +1,110 @@
+/**
+ * Event Log Ingestion
+ * Reads NDJSON exports of the events logged by statsigClient and analytics.ts
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Event name written by logExposure / logExperimentExposure
+ */
+export const EXPOSURE_EVENT = 'experiment_exposure';
+
+/**
+ * Event log used when no path is given (override with EXPERIMENT_EVENT_LOG)
+ */
+export const DEFAULT_EVENT_LOG = '.experiments/events.ndjson';
+
+/**
+ * Normalized analytics event
+ */
+export interface LoggedEvent {
+  name: string;
+  userId: string;
+  value?: string | number;
+  metadata: Record<string, any>;
+  /** Milliseconds since the epoch, when the row carries a time */
+  timestamp?: number;
+}
+
+/**
+ * Parsed event log
+ */
+export interface EventLog {
+  events: LoggedEvent[];
+  /** Rows without an event name or user ID */
+  skipped: number;
+}
+
+function parseTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number' && isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+    return isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Normalize one row. Accepts the `{ name, value, metadata: { user_id, timestamp } }`
+ * shape of statsigClient.log and Statsig's `{ eventName, value, metadata, user: { userID }, time }`.
+ */
+export function parseEvent(row: any): LoggedEvent | null {
+  if (!row || typeof row !== 'object') return null;
+
+  const metadata: Record<string, any> = row.metadata && typeof row.metadata === 'object' ? row.metadata : {};
+  const name = row.eventName ?? row.name ?? row.event;
+  const userId = row.user?.userID ?? row.userID ?? row.user_id ?? metadata.user_id;
+
+  if (typeof name !== 'string' || userId === undefined || userId === null || userId === '') {
+    return null;
+  }
+
+  return {
+    name,
+    userId: String(userId),
+    value: row.value ?? undefined,
+    metadata,
+    timestamp: parseTimestamp(row.time ?? row.timestamp ?? metadata.timestamp),
+  };
+}
+
+/**
+ * Parse NDJSON text (blank lines ignored); `source` prefixes error locations
+ */
+export function parseEventLog(text: string, source: string = 'events'): EventLog {
+  const events: LoggedEvent[] = [];
+  let skipped = 0;
+
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+
+    let row: unknown;
+    try {
+      row = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`${source}:${index + 1}: Invalid JSON (${error instanceof Error ? error.message : error})`);
+    }
+
+    const event = parseEvent(row);
+    if (event) events.push(event); else skipped++;
+  });
+
+  return { events, skipped };
+}
+
+/**
+ * Read an NDJSON event log from disk
+ */
+export function readEventLog(path: string): EventLog {
+  return parseEventLog(readFileSync(path, 'utf-8'), path);
+}
+
+/**
+ * Event log to use by default, if one exists
+ */
+export function findDefaultEventLog(projectRoot: string): string | undefined {
+  const path = process.env.EXPERIMENT_EVENT_LOG || join(projectRoot, DEFAULT_EVENT_LOG);
+  return existsSync(path) ? path : undefined;
+}
@@ -0,0 +1,98 @@
+/**
+ * Exposure Join
+ * Assigns each user to the variant they were exposed to and attaches their later events
+ */
+
+import type { ExperimentContract } from '../contract-schema.js';
+import { EXPOSURE_EVENT, type LoggedEvent } from './events.js';
+
+/**
+ * User exposed to the experiment, with the events that count towards metrics
+ */
+export interface ExposedUser {
+  userId: string;
+  /** Contract variant key */
+  variant: string;
+  /** Time of the first exposure, when known */
+  exposedAt?: number;
+  events: LoggedEvent[];
+}
+
+/**
+ * Result of joining exposures to events
+ */
+export interface ExposureJoin {
+  experimentKey: string;
+  /** Users with exactly one variant, by contract variant key */
+  usersByVariant: Record<string, ExposedUser[]>;
+  /** Users exposed to more than one variant (excluded from analysis) */
+  conflictingUsers: string[];
+  /** Exposure counts for variant values that match no contract variant */
+  unknownVariants: Record<string, number>;
+}
+
+/**
+ * Map the variant logged at exposure to a contract variant key (by key or display name)
+ */
+function resolveVariant(contract: ExperimentContract, logged: unknown): string | undefined {
+  const value = String(logged ?? '').toLowerCase();
+  return Object.keys(contract.variants).find(key =>
+    key.toLowerCase() === value || contract.variants[key].name.toLowerCase() === value
+  );
+}
+
+/**
+ * Join exposures for the contract's experiment to each user's events. Events before
+ * the first exposure are dropped when both carry timestamps.
+ */
+export function joinExposures(events: LoggedEvent[], contract: ExperimentContract): ExposureJoin {
+  const exposures: Record<string, { variants: string[]; exposedAt?: number }> = {};
+  const unknownVariants: Record<string, number> = {};
+
+  events.forEach(event => {
+    if (event.name !== EXPOSURE_EVENT) return;
+    if ((event.metadata.experiment_key ?? event.value) !== contract.experimentKey) return;
+
+    const variant = resolveVariant(contract, event.metadata.variant);
+    if (!variant) {
+      const label = String(event.metadata.variant);
+      unknownVariants[label] = (unknownVariants[label] || 0) + 1;
+      return;
+    }
+
+    const exposure = exposures[event.userId] || (exposures[event.userId] = { variants: [] });
+    if (exposure.variants.indexOf(variant) === -1) exposure.variants.push(variant);
+    if (event.timestamp !== undefined && (exposure.exposedAt === undefined || event.timestamp < exposure.exposedAt)) {
+      exposure.exposedAt = event.timestamp;
+    }
+  });
+
+  const usersByVariant: Record<string, ExposedUser[]> = {};
+  const byUser: Record<string, ExposedUser> = {};
+  const conflictingUsers: string[] = [];
+
+  Object.keys(contract.variants).forEach(key => {
+    usersByVariant[key] = [];
+  });
+
+  Object.keys(exposures).sort().forEach(userId => {
+    const { variants, exposedAt } = exposures[userId];
+    if (variants.length > 1) {
+      conflictingUsers.push(userId);
+      return;
+    }
+
+    const user: ExposedUser = { userId, variant: variants[0], exposedAt, events: [] };
+    usersByVariant[user.variant].push(user);
+    byUser[userId] = user;
+  });
+
+  events.forEach(event => {
+    const user = byUser[event.userId];
+    if (!user || event.name === EXPOSURE_EVENT) return;
+    if (user.exposedAt !== undefined && event.timestamp !== undefined && event.timestamp < user.exposedAt) return;
+    user.events.push(event);
+  });
+
+  return { experimentKey: contract.experimentKey, usersByVariant, conflictingUsers, unknownVariants };
+}
@@ -0,0 +1,91 @@
+/**
+ * Local Experiment Analysis
+ * Computes per-variant contract metrics from an exported event log, without Statsig
+ */
+
+import type { ExperimentContract } from '../contract-schema.js';
+import type { LoggedEvent } from './events.js';
+import { joinExposures } from './exposures.js';
+import { metricDefinition, summarizeMetric, type MetricDefinition, type VariantMetricSummary } from './metrics.js';
+
+export * from './events.js';
+export * from './exposures.js';
+export * from './metrics.js';
+export * from './baseline.js';
+
+/**
+ * One contract metric summarized per variant
+ */
+export interface LocalMetricAnalysis {
+  definition: MetricDefinition;
+  role: 'primary' | 'secondary' | 'guardrail';
+  variants: Record<string, VariantMetricSummary | undefined>;
+}
+
+/**
+ * Per-variant metrics for one experiment
+ */
+export interface LocalAnalysis {
+  experimentKey: string;
+  exposedUsers: Record<string, number>;
+  conflictingUsers: number;
+  unknownVariants: Record<string, number>;
+  metrics: LocalMetricAnalysis[];
+}
+
+/**
+ * Join exposures to events and summarize every primary, secondary and guardrail metric
+ */
+export function analyzeEvents(contract: ExperimentContract, events: LoggedEvent[]): LocalAnalysis {
+  const join = joinExposures(events, contract);
+  const variantKeys = Object.keys(contract.variants);
+  const exposedUsers: Record<string, number> = {};
+
+  variantKeys.forEach(key => {
+    exposedUsers[key] = join.usersByVariant[key].length;
+  });
+
+  const metrics = [
+    ...contract.primaryMetrics.map(metric => ({ metric, role: 'primary' as const })),
+    ...contract.secondaryMetrics.map(metric => ({ metric, role: 'secondary' as const })),
+    ...contract.guardrailMetrics.map(metric => ({ metric, role: 'guardrail' as const })),
+  ].map(({ metric, role }) => {
+    const definition = metricDefinition(metric);
+    const variants: Record<string, VariantMetricSummary | undefined> = {};
+    variantKeys.forEach(key => {
+      variants[key] = summarizeMetric(definition, join.usersByVariant[key]);
+    });
+    return { definition, role, variants };
+  });
+
+  return {
+    experimentKey: contract.experimentKey,
+    exposedUsers,
+    conflictingUsers: join.conflictingUsers.length,
+    unknownVariants: join.unknownVariants,
+    metrics,
+  };
+}
+
+/**
+ * Pulse-style results (as returned by Statsig) for each treatment variant,
+ * so local analyses feed the same report as `experiment results`
+ */
+export function toPulseResults(analysis: LocalAnalysis, controlKey: string): Record<string, unknown> {
+  const pulses: Record<string, unknown> = {};
+
+  Object.keys(analysis.exposedUsers)
+    .filter(key => key !== controlKey)
+    .forEach(variant => {
+      pulses[variant] = {
+        metrics: analysis.metrics.map(({ definition, variants }) => ({
+          metric: definition.name,
+          type: definition.type,
+          control: variants[controlKey],
+          test: variants[variant],
+        })),
+      };
+    });
+
+  return pulses;
+}
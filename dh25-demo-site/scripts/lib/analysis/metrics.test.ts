@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { deltaMethodRatio, sampleSummary } from './metrics.js';
+
+test('sampleSummary uses the sample (n - 1) variance', () => {
+  const summary = sampleSummary([2, 4, 4, 4, 5, 5, 7, 9])!;
+
+  assert.equal(summary.units, 8);
+  assert.equal(summary.mean, 5);
+  assert.equal(summary.total, 40);
+  assert.ok(Math.abs(summary.variance - 32 / 7) < 1e-12);
+  assert.equal(sampleSummary([3])!.variance, 0);
+  assert.equal(sampleSummary([]), undefined);
+});
+
+test('deltaMethodRatio gives the ratio of means and its linearized variance', () => {
+  // x̄ = 2, s²x = 1, ȳ = 8/3, s²y = 4/3, cov = 1, R = 0.75:
+  // (1 - 2·0.75·1 + 0.75²·4/3) / (8/3)² = 0.25 / (64/9)
+  const summary = deltaMethodRatio([1, 2, 3], [2, 2, 4])!;
+
+  assert.equal(summary.units, 3);
+  assert.equal(summary.mean, 0.75);
+  assert.equal(summary.total, 6);
+  assert.ok(Math.abs(summary.variance - 0.03515625) < 1e-12);
+  assert.equal(deltaMethodRatio([1, 2], [0, 0]), undefined);
+});
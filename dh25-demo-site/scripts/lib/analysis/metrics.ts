@@ -0,0 +1,145 @@
+/**
+ * Per-Variant Metrics
+ * Computes count, ratio, revenue and duration metrics for exposed users
+ */
+
+import type { PrimaryMetric } from '../contract-schema.js';
+import type { GroupSummary } from '../statistics.js';
+import type { LoggedEvent } from './events.js';
+import type { ExposedUser } from './exposures.js';
+
+/**
+ * How a contract metric is computed from events
+ */
+export interface MetricDefinition {
+  name: string;
+  type: PrimaryMetric['type'];
+  /** Event counted (count/ratio numerator) or read (revenue/duration) */
+  event: string;
+  /** Ratio denominator event; without it a ratio is the share of users with `event` */
+  denominatorEvent?: string;
+  /** Metadata field holding the numeric value (revenue/duration) */
+  valueField?: string;
+}
+
+/**
+ * Metric summary for one variant (GroupSummary plus what went into it)
+ */
+export interface VariantMetricSummary extends GroupSummary {
+  /** Sum of the numerator across units */
+  total: number;
+}
+
+/**
+ * Event-log definition of a contract metric (event defaults to the metric name)
+ */
+export function metricDefinition(metric: PrimaryMetric): MetricDefinition {
+  return {
+    name: metric.name,
+    type: metric.type,
+    event: metric.event || metric.name,
+    denominatorEvent: metric.denominatorEvent,
+    valueField: metric.valueField,
+  };
+}
+
+/**
+ * Mean and sample variance of per-unit values
+ */
+export function sampleSummary(values: number[]): VariantMetricSummary | undefined {
+  if (values.length === 0) return undefined;
+
+  const total = values.reduce((sum, value) => sum + value, 0);
+  const mean = total / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+
+  return { units: values.length, mean, variance, total };
+}
+
+/**
+ * Ratio of sums with its delta-method variance, expressed per unit so that
+ * variance / units is the variance of the ratio
+ */
+export function deltaMethodRatio(numerators: number[], denominators: number[]): VariantMetricSummary | undefined {
+  const units = numerators.length;
+  const x = sampleSummary(numerators);
+  const y = sampleSummary(denominators);
+  if (!x || !y || y.mean === 0) return undefined;
+
+  const ratio = x.mean / y.mean;
+  const covariance = units > 1
+    ? numerators.reduce((sum, value, index) => sum + (value - x.mean) * (denominators[index] - y.mean), 0) / (units - 1)
+    : 0;
+  const variance = (x.variance - 2 * ratio * covariance + ratio ** 2 * y.variance) / y.mean ** 2;
+
+  return { units, mean: ratio, variance: Math.max(0, variance), total: x.total };
+}
+
+/**
+ * Numeric value of an event (valueField, else the event value, else revenue/total metadata)
+ */
+function numericValue(event: LoggedEvent, valueField?: string): number | undefined {
+  const candidates = valueField
+    ? [event.metadata[valueField]]
+    : [event.value, event.metadata.revenue, event.metadata.total];
+
+  for (const candidate of candidates) {
+    const value = typeof candidate === 'string' ? parseFloat(candidate) : candidate;
+    if (typeof value === 'number' && isFinite(value)) return value;
+  }
+  return undefined;
+}
+
+function eventsNamed(user: ExposedUser, name: string): LoggedEvent[] {
+  return user.events.filter(event => event.name === name);
+}
+
+/**
+ * Per-variant summary of a metric over the users exposed to that variant
+ */
+export function summarizeMetric(definition: MetricDefinition, users: ExposedUser[]): VariantMetricSummary | undefined {
+  switch (definition.type) {
+    case 'count':
+      // Events per exposed user
+      return sampleSummary(users.map(user => eventsNamed(user, definition.event).length));
+
+    case 'ratio':
+      if (definition.denominatorEvent) {
+        // e.g. clicks / page views, pooled across users
+        return deltaMethodRatio(
+          users.map(user => eventsNamed(user, definition.event).length),
+          users.map(user => eventsNamed(user, definition.denominatorEvent!).length)
+        );
+      }
+      // Share of exposed users with at least one event
+      return sampleSummary(users.map(user => (eventsNamed(user, definition.event).length > 0 ? 1 : 0)));
+
+    case 'revenue':
+      // Value per exposed user (users without the event contribute 0)
+      return sampleSummary(users.map(user =>
+        eventsNamed(user, definition.event).reduce((sum, event) => sum + (numericValue(event, definition.valueField) ?? 0), 0)
+      ));
+
+    case 'duration': {
+      // Per user with the event: its value, else seconds from exposure to the first occurrence
+      const durations: number[] = [];
+      users.forEach(user => {
+        const [first] = eventsNamed(user, definition.event);
+        if (!first) return;
+
+        const value = numericValue(first, definition.valueField);
+        if (value !== undefined) {
+          durations.push(value);
+        } else if (first.timestamp !== undefined && user.exposedAt !== undefined) {
+          durations.push((first.timestamp - user.exposedAt) / 1000);
+        }
+      });
+      return sampleSummary(durations);
+    }
+
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,152 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AstCodeGenerator } from './ast-code-generator.js';
+import { validateContract, type ExperimentContract } from './contract-schema.js';
+
+const generator = new AstCodeGenerator(process.cwd());
+
+/**
+ * Contract with one code change on src/components/Banner.tsx
+ */
+function bannerContract(codeChange: Record<string, unknown> = {}): ExperimentContract {
+  return validateContract({
+    schemaVersion: 2,
+    experimentKey: 'banner_test',
+    name: 'Banner test',
+    variants: {
+      control: { name: 'Control', parameters: { showBadge: false }, passPercentage: 50 },
+      treatment: { name: 'Treatment', parameters: { showBadge: true }, passPercentage: 50 },
+    },
+    codeChanges: [{ file: 'src/components/Banner.tsx', function: 'Banner', parameterUsage: 'showBadge', ...codeChange }],
+    branchConfig: { branchName: 'exp/banner_test' },
+    deployment: {},
+    statsig: {},
+  });
+}
+
+/**
+ * Plan the contract's only code change against `source`
+ */
+function plan(source: string, contract = bannerContract()) {
+  const result = generator.planCodeChange(source, contract.codeChanges[0], contract);
+  assert.deepEqual(result.errors, []);
+  return result;
+}
+
+test('client components get a hook lookup and keep their directive', () => {
+  const source = [
+    `'use client';`,
+    ``,
+    `export function Banner() {`,
+    `  return <div>Banner</div>;`,
+    `}`,
+    ``,
+  ].join('\n');
+  const { modified } = plan(source);
+
+  assert.match(modified, /^'use client';\n\nimport \{ useState, useEffect \} from 'react';/);
+  assert.match(modified, /import \{ getExperiment, logExposure \} from '@\/lib\/statsigClient';/);
+  assert.match(modified, /const \[showBadge, setShowBadge\] = useState<boolean>\(false\);/);
+  assert.equal(modified.match(/'use client'/g)!.length, 1);
+});
+
+test('synchronous server components are made async instead of client components', () => {
+  const source = [
+    `export const metadata = { title: 'Banner' };`,
+    ``,
+    `export default function Banner(): JSX.Element {`,
+    `  return <div>Banner</div>;`,
+    `}`,
+    ``,
+  ].join('\n');
+  const { modified, changes } = plan(source);
+
+  assert.doesNotMatch(modified, /use client|useState|useEffect/);
+  assert.match(modified, /export default async function Banner\(\): Promise<JSX\.Element> \{/);
+  assert.match(modified, /const bannerTestExperiment = await getExperiment\('banner_test'\);/);
+  assert.ok(changes.includes('Made Banner an async server component'));
+});
+
+test('synchronous server arrow components are made async', () => {
+  const { modified } = plan(`export const Banner = () => <div>Banner</div>;\n`);
+
+  assert.match(modified, /export const Banner = async \(\) => \{/);
+  assert.match(modified, /return <div>Banner<\/div>;/);
+});
+
+test('memo-wrapped server components are rejected', () => {
+  const contract = bannerContract();
+  const source = `import { memo } from 'react';\n\nexport const Banner = memo(() => <div>Banner</div>);\n`;
+  const result = generator.planCodeChange(source, contract.codeChanges[0], contract);
+
+  assert.equal(result.success, false);
+  assert.match(result.errors[0], /cannot be made async/);
+  assert.equal(result.modified, source);
+});
+
+test("'after' puts hooks ahead of guarded early returns", () => {
+  const source = [
+    `'use client';`,
+    ``,
+    `export function Banner({ product }: { product?: string }) {`,
+    `  const label = product?.toUpperCase();`,
+    `  if (!label) return null;`,
+    `  return <div>{label}</div>;`,
+    `}`,
+    ``,
+  ].join('\n');
+  const { modified } = plan(source, bannerContract({ insertionPoint: 'after' }));
+
+  const hook = modified.indexOf('useState<boolean>(false)');
+  assert.ok(modified.indexOf('const label') < hook, 'after the component logic');
+  assert.ok(hook < modified.indexOf('if (!label) return null;'), 'before the guarded return');
+});
+
+test("'after' ignores returns inside nested functions", () => {
+  const source = [
+    `'use client';`,
+    ``,
+    `export function Banner({ items }: { items: string[] }) {`,
+    `  const labels = items.map(item => { return item.toUpperCase(); });`,
+    `  return <div>{labels.join(', ')}</div>;`,
+    `}`,
+    ``,
+  ].join('\n');
+  const { modified } = plan(source, bannerContract({ insertionPoint: 'after' }));
+
+  assert.ok(modified.indexOf('const labels') < modified.indexOf('useState<boolean>(false)'));
+});
+
+test('instrumented files are left unchanged', () => {
+  const { modified } = plan(`export async function Banner() {\n  // Experiment: banner_test\n  return null;\n}\n`);
+  assert.match(modified, /^export async function Banner/);
+});
+
+test('shipping replaces the block with the variant value and drops unused imports', () => {
+  const contract = bannerContract();
+  const original = [
+    `'use client';`,
+    ``,
+    `export function Banner() {`,
+    `  return <div>Banner</div>;`,
+    `}`,
+    ``,
+  ].join('\n');
+  const instrumented = plan(original, contract).modified;
+  const shipped = generator.planShip(instrumented, 'src/components/Banner.tsx', contract, 'treatment', original);
+
+  assert.deepEqual(shipped.errors, []);
+  assert.match(shipped.modified, /^'use client';\n\n+export function Banner\(\) \{\n  const showBadge = true;\n\n  return <div>Banner<\/div>;/);
+  assert.doesNotMatch(shipped.modified, /statsigClient|useState|useEffect|Experiment: banner_test/);
+});
+
+test('shipping a server component removes the awaited lookup', () => {
+  const contract = bannerContract();
+  const original = `export default function Banner() {\n  return <div>Banner</div>;\n}\n`;
+  const instrumented = plan(original, contract).modified;
+  const shipped = generator.planShip(instrumented, 'src/components/Banner.tsx', contract, 'control', original);
+
+  assert.deepEqual(shipped.errors, []);
+  assert.match(shipped.modified, /const showBadge = false;/);
+  assert.doesNotMatch(shipped.modified, /getExperiment|logExposure|use client/);
+});
@@ -0,0 +1,796 @@
+/**
+ * AST Code Generation Logic for Experiment Implementation
+ * Uses the TypeScript compiler API to locate components and inject experiment code
+ */
+
+import * as ts from 'typescript';
+import { readFileSync, writeFileSync } from 'fs';
+import { basename, dirname, extname, join, relative } from 'path';
+import type { CodeChange, ExperimentContract } from './contract-schema.js';
+import type { CodeModificationResult } from './code-generator.js';
+
+/**
+ * Planned (not yet written) modification of a single file
+ */
+export interface PlannedCodeChange extends CodeModificationResult {
+  original: string;
+  modified: string;
+}
+
+/**
+ * Text replacement against the original source
+ */
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+  order: number;
+}
+
+/**
+ * Function-like node that renders a component
+ */
+type ComponentNode = ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction;
+
+const STATSIG_CLIENT_EXPORTS = ['checkGate', 'getExperiment', 'getExperimentParams', 'logExposure'];
+const REACT_HOOKS = ['useState', 'useEffect'];
+const TYPED_EXPERIMENT_EXPORTS = ['getTypedExperiment'];
+
+/**
+ * Experiment code modifications driven by the TypeScript AST
+ */
+export class AstCodeGenerator {
+  private projectRoot: string;
+
+  constructor(projectRoot: string) {
+    this.projectRoot = projectRoot;
+  }
+
+  /**
+   * Compute every code change in memory without touching the working tree
+   */
+  async planCodeChanges(contract: ExperimentContract): Promise<PlannedCodeChange[]> {
+    const contents = new Map<string, string>();
+    const plans: PlannedCodeChange[] = [];
+
+    for (const codeChange of contract.codeChanges) {
+      // Several changes may target one file; each builds on the previous result
+      const filePath = join(this.projectRoot, codeChange.file);
+      const current = contents.has(filePath) ? contents.get(filePath)! : readFileSync(filePath, 'utf-8');
+      const plan = this.planCodeChange(current, codeChange, contract);
+
+      if (plan.success) {
+        contents.set(filePath, plan.modified);
+      }
+      plans.push(plan);
+    }
+
+    return plans;
+  }
+
+  /**
+   * Apply all code changes from contract
+   */
+  async applyCodeChanges(contract: ExperimentContract): Promise<CodeModificationResult[]> {
+    const plans = await this.planCodeChanges(contract);
+
+    if (plans.every(plan => plan.success)) {
+      // Write the final content of each file once
+      const finalContent = new Map<string, string>();
+      plans.forEach(plan => finalContent.set(plan.file, plan.modified));
+      finalContent.forEach((content, file) => {
+        writeFileSync(join(this.projectRoot, file), content);
+      });
+    }
+
+    return plans.map(({ success, file, changes, errors }) => {
+      console.log(`${success ? '✅' : '❌'} AST modification ${success ? 'successful' : 'failed'}: ${file}`);
+      return { success, file, changes, errors };
+    });
+  }
+
+  /**
+   * Plan a single code change against the given source text
+   */
+  planCodeChange(original: string, codeChange: CodeChange, contract: ExperimentContract): PlannedCodeChange {
+    const plan: PlannedCodeChange = {
+      success: false,
+      file: codeChange.file,
+      changes: [],
+      errors: [],
+      original,
+      modified: original,
+    };
+
+    try {
+      const sourceFile = ts.createSourceFile(
+        codeChange.file,
+        original,
+        ts.ScriptTarget.Latest,
+        true,
+        this.scriptKindFor(codeChange.file)
+      );
+
+      if (this.isInstrumented(original, contract.experimentKey)) {
+        plan.success = true;
+        plan.changes.push(`Already instrumented for ${contract.experimentKey}, left unchanged`);
+        return plan;
+      }
+
+      const component = this.findComponent(sourceFile, codeChange.function);
+      if (!component || !component.body) {
+        throw new Error(`Function/component '${codeChange.function}' not found in ${codeChange.file}`);
+      }
+
+      const edits: TextEdit[] = [];
+      const isAsync = this.hasModifier(component, ts.SyntaxKind.AsyncKeyword);
+
+      // Hooks only run in client components; anything else is a server
+      // component and gets an awaited lookup
+      const useHooks = !isAsync && this.hasUseClientDirective(sourceFile);
+      if (!useHooks && !isAsync) {
+        this.addAsyncEdits(sourceFile, component, codeChange, edits);
+        plan.changes.push(`Made ${codeChange.function} an async server component`);
+      }
+
+      const body = this.buildExperimentCode(codeChange, contract, useHooks);
+      this.addImportEdits(sourceFile, codeChange.file, body, edits, plan.changes);
+      this.addInjectionEdit(sourceFile, component, codeChange, body, useHooks, edits);
+      plan.changes.push(
+        `Injected ${useHooks ? 'useEffect/useState hook' : 'awaited experiment lookup'} into ${codeChange.function} (${codeChange.insertionPoint})` +
+          (codeChange.gate ? `, gated by ${codeChange.gate}` : '')
+      );
+
+      plan.modified = this.applyEdits(original, edits);
+
+      const syntaxErrors = this.syntaxErrors(plan.modified, codeChange.file);
+      if (syntaxErrors.length > 0) {
+        plan.modified = original;
+        throw new Error(`Generated code does not parse: ${syntaxErrors.join('; ')}`);
+      }
+
+      plan.success = true;
+    } catch (error) {
+      plan.errors.push(error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    return plan;
+  }
+
+  /**
+   * Compute the changes that make one variant the permanent behaviour: every
+   * experiment block becomes a constant with that variant's parameter value.
+   * `baseline` returns a file as it was before instrumentation, if known.
+   */
+  async planShipChanges(
+    contract: ExperimentContract,
+    variantKey: string,
+    baseline: (file: string) => string | undefined = () => undefined
+  ): Promise<PlannedCodeChange[]> {
+    const files = contract.codeChanges
+      .map(codeChange => codeChange.file)
+      .filter((file, index, all) => all.indexOf(file) === index);
+
+    return files.map(file =>
+      this.planShip(readFileSync(join(this.projectRoot, file), 'utf-8'), file, contract, variantKey, baseline(file))
+    );
+  }
+
+  /**
+   * Plan shipping a variant in one file
+   */
+  planShip(
+    original: string,
+    file: string,
+    contract: ExperimentContract,
+    variantKey: string,
+    baseline?: string
+  ): PlannedCodeChange {
+    const plan: PlannedCodeChange = { success: false, file, changes: [], errors: [], original, modified: original };
+    const key = contract.experimentKey;
+    const parameters = contract.variants[variantKey].parameters;
+
+    try {
+      if (!original.includes(`// Experiment: ${key}`)) {
+        plan.success = true;
+        plan.changes.push(`No ${key} experiment code left, unchanged`);
+        return plan;
+      }
+
+      let modified = original;
+      contract.codeChanges.filter(codeChange => codeChange.file === file).forEach(codeChange => {
+        const parameter = codeChange.parameterUsage;
+        if (codeChange.customCode) {
+          throw new Error(`${codeChange.function} uses customCode; remove its experiment block by hand`);
+        }
+        if (!(parameter in parameters)) {
+          throw new Error(`Variant '${variantKey}' has no parameter '${parameter}'`);
+        }
+
+        modified = this.replaceExperimentBlock(modified, file, key, parameter, JSON.stringify(parameters[parameter]));
+        plan.changes.push(`Set ${parameter} to ${JSON.stringify(parameters[parameter])} in ${codeChange.function}`);
+      });
+
+      modified = this.removeUnusedImports(modified, file, plan.changes);
+      modified = this.removeAddedUseClient(modified, file, baseline, plan.changes);
+
+      const syntaxErrors = this.syntaxErrors(modified, file);
+      if (syntaxErrors.length > 0) {
+        throw new Error(`Shipped code does not parse: ${syntaxErrors.join('; ')}`);
+      }
+
+      plan.modified = modified;
+      plan.success = true;
+    } catch (error) {
+      plan.errors.push(error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    return plan;
+  }
+
+  /**
+   * Swap the marked block declaring `parameter` for a constant declaration.
+   * A block that only calls the parameter's state setter (as in hand-written
+   * effects) is removed and the `useState` declaration becomes the constant.
+   */
+  private replaceExperimentBlock(
+    content: string,
+    file: string,
+    experimentKey: string,
+    parameter: string,
+    value: string
+  ): string {
+    const lines = content.split('\n');
+    const declares = new RegExp(`\\bconst\\s+(?:\\[\\s*)?${parameter}\\b`);
+    const setter = `set${parameter.charAt(0).toUpperCase()}${parameter.slice(1)}`;
+    const sets = new RegExp(`\\b${setter}\\s*\\(`);
+    const declaresState = new RegExp(`^\\s*const\\s*\\[\\s*${parameter}\\s*,\\s*${setter}\\s*\\]\\s*=\\s*useState\\b`);
+    const indentOf = (line: string) => line.slice(0, line.length - line.trimStart().length);
+
+    for (let start = 0; start < lines.length; start++) {
+      if (lines[start].trim() !== `// Experiment: ${experimentKey}`) continue;
+
+      // Without an end marker the block runs to the end of its enclosing statement list
+      let end = start + 1;
+      while (end < lines.length && lines[end].trim() !== `// End experiment: ${experimentKey}`) end++;
+      if (end === lines.length) {
+        end = this.enclosingStatementsEnd(content, file, start);
+      }
+
+      const block = lines.slice(start, end + 1).join('\n');
+      if (declares.test(block)) {
+        lines.splice(start, end - start + 1, `${indentOf(lines[start])}const ${parameter} = ${value};`);
+        return lines.join('\n');
+      }
+
+      const state = lines.findIndex(line => declaresState.test(line));
+      if (sets.test(block) && state !== -1 && (state < start || state > end)) {
+        lines[state] = `${indentOf(lines[state])}const ${parameter} = ${value};`;
+        lines.splice(start, end - start + 1);
+        return lines.join('\n');
+      }
+      start = end;
+    }
+
+    throw new Error(`No ${experimentKey} experiment block declares or sets '${parameter}'`);
+  }
+
+  /**
+   * Last line of the statement list whose first marked statement follows `line`
+   */
+  private enclosingStatementsEnd(content: string, file: string, line: number): number {
+    const sourceFile = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true, this.scriptKindFor(file));
+    const position = sourceFile.getPositionOfLineAndCharacter(line, 0);
+    let end = -1;
+
+    const visit = (node: ts.Node) => {
+      const statements = (node as { statements?: ts.NodeArray<ts.Statement> }).statements;
+      if (statements && statements.some(statement => statement.getFullStart() <= position && position < statement.getStart(sourceFile))) {
+        end = sourceFile.getLineAndCharacterOfPosition(statements[statements.length - 1].end).line;
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    if (end === -1) {
+      throw new Error(`Experiment block at line ${line + 1} is not followed by a statement`);
+    }
+    return end;
+  }
+
+  /**
+   * Drop the `'use client'` directive the generator added once no hooks are left
+   */
+  private removeAddedUseClient(content: string, file: string, baseline: string | undefined, changes: string[]): string {
+    const parse = (text: string) => ts.createSourceFile(file, text, ts.ScriptTarget.Latest, true, this.scriptKindFor(file));
+    const sourceFile = parse(content);
+    if (baseline === undefined || this.hasUseClientDirective(parse(baseline)) || !this.hasUseClientDirective(sourceFile)) {
+      return content;
+    }
+    if (/\buse[A-Z]\w*\s*[(<]/.test(content)) {
+      return content;
+    }
+
+    const directive = sourceFile.statements.find(statement =>
+      ts.isExpressionStatement(statement) &&
+      ts.isStringLiteral(statement.expression) &&
+      statement.expression.text === 'use client'
+    )!;
+    const end = content.slice(directive.end).match(/^[ \t]*\n*/)![0].length + directive.end;
+    changes.push(`Removed 'use client' from ${file} (no hooks left)`);
+    return content.slice(0, directive.getStart(sourceFile)) + content.slice(end);
+  }
+
+  /**
+   * Drop Statsig client, typed experiment and React hook imports that the file no longer uses
+   */
+  private removeUnusedImports(content: string, file: string, changes: string[]): string {
+    const sourceFile = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true, this.scriptKindFor(file));
+    const edits: TextEdit[] = [];
+
+    sourceFile.statements.filter(ts.isImportDeclaration).forEach(declaration => {
+      const specifier = ts.isStringLiteral(declaration.moduleSpecifier) ? declaration.moduleSpecifier.text : '';
+      const candidates = specifier === 'react'
+        ? REACT_HOOKS
+        : /(^|\/)lib\/statsigClient$/.test(specifier)
+          ? STATSIG_CLIENT_EXPORTS
+          : /(^|\/)lib\/experiments\.generated$/.test(specifier) ? TYPED_EXPERIMENT_EXPORTS : [];
+      const clause = declaration.importClause;
+      const namedImports = clause?.namedBindings && ts.isNamedImports(clause.namedBindings) ? clause.namedBindings : undefined;
+      if (!namedImports || candidates.length === 0) return;
+
+      const rest = content.slice(0, declaration.getStart(sourceFile)) + content.slice(declaration.end);
+      const unused = namedImports.elements.filter(element =>
+        candidates.indexOf((element.propertyName || element.name).text) !== -1 &&
+        !new RegExp(`\\b${element.name.text}\\b`).test(rest)
+      );
+      if (unused.length === 0) return;
+
+      const kept = namedImports.elements.filter(element => unused.indexOf(element) === -1);
+      if (kept.length > 0) {
+        const text = `{ ${kept.map(element => element.getText(sourceFile)).join(', ')} }`;
+        edits.push({ start: namedImports.getStart(sourceFile), end: namedImports.end, text, order: edits.length });
+      } else if (clause?.name) {
+        edits.push({ start: clause.name.end, end: namedImports.end, text: '', order: edits.length });
+      } else {
+        const end = content.charAt(declaration.end) === '\n' ? declaration.end + 1 : declaration.end;
+        edits.push({ start: declaration.getStart(sourceFile), end, text: '', order: edits.length });
+      }
+      changes.push(`Removed unused import(s) ${unused.map(element => element.name.text).join(', ')} from ${specifier}`);
+    });
+
+    return this.applyEdits(content, edits);
+  }
+
+  /**
+   * Check whether the experiment is already wired into the source
+   */
+  private isInstrumented(content: string, experimentKey: string): boolean {
+    const lookup = new RegExp(`get(?:Typed)?Experiment(?:Params)?\\(\\s*['"\`]${experimentKey}['"\`]`);
+    return content.includes(`// Experiment: ${experimentKey}`) || lookup.test(content);
+  }
+
+  /**
+   * Locate a function, arrow or default-export component by name
+   */
+  private findComponent(sourceFile: ts.SourceFile, name: string): ComponentNode | null {
+    const fileName = basename(sourceFile.fileName, extname(sourceFile.fileName));
+    const matchesAnonymousDefault = name === 'default' || name === fileName;
+    let defaultExportName: string | null = null;
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isFunctionDeclaration(statement)) {
+        if (statement.name ? statement.name.text === name : matchesAnonymousDefault) {
+          return statement;
+        }
+      }
+
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (ts.isIdentifier(declaration.name) && declaration.name.text === name && declaration.initializer) {
+            const component = this.unwrapComponent(declaration.initializer);
+            if (component) return component;
+          }
+        }
+      }
+
+      if (ts.isExportAssignment(statement)) {
+        if (ts.isIdentifier(statement.expression)) {
+          defaultExportName = statement.expression.text;
+        } else if (matchesAnonymousDefault) {
+          const component = this.unwrapComponent(statement.expression);
+          if (component) return component;
+        }
+      }
+    }
+
+    // `export default Foo` where the contract names the file's default export
+    if (defaultExportName && name === 'default') {
+      return this.findComponent(sourceFile, defaultExportName);
+    }
+
+    return null;
+  }
+
+  /**
+   * Strip parentheses, casts and memo()/forwardRef() wrappers
+   */
+  private unwrapComponent(expression: ts.Expression): ComponentNode | null {
+    if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) {
+      return expression;
+    }
+    if (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression)) {
+      return this.unwrapComponent(expression.expression);
+    }
+    if (ts.isCallExpression(expression) && expression.arguments.length > 0) {
+      return this.unwrapComponent(expression.arguments[0]);
+    }
+    return null;
+  }
+
+  private hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+    return !!modifiers && modifiers.some(modifier => modifier.kind === kind);
+  }
+
+  private hasUseClientDirective(sourceFile: ts.SourceFile): boolean {
+    for (const statement of sourceFile.statements) {
+      if (!ts.isExpressionStatement(statement) || !ts.isStringLiteral(statement.expression)) {
+        return false;
+      }
+      if (statement.expression.text === 'use client') {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Experiment code lines (unindented, wrapped in start/end markers)
+   */
+  private buildExperimentCode(codeChange: CodeChange, contract: ExperimentContract, useHooks: boolean): string[] {
+    const key = contract.experimentKey;
+    const parameter = codeChange.parameterUsage;
+    const component = codeChange.function === 'default'
+      ? basename(codeChange.file, extname(codeChange.file))
+      : codeChange.function;
+    const exposure = `{ component: '${component}', parameter: '${parameter}' }`;
+    const gate = codeChange.gate;
+    let lines: string[];
+
+    if (codeChange.customCode) {
+      lines = this.dedent(codeChange.customCode);
+    } else if (useHooks) {
+      const defaultValue = this.controlDefault(contract, parameter);
+      const setter = `set${parameter.charAt(0).toUpperCase()}${parameter.slice(1)}`;
+      const typeArgument = this.stateTypeArgument(codeChange.file, defaultValue);
+      // Users failing the gate keep the control value and are never exposed
+      const fetch = (call: string) => (gate
+        ? [`checkGate('${gate}')`, `  .then(passes => (passes ? ${call} : null))`]
+        : [call]);
+      const lookup = codeChange.wrapWith === 'getExperimentParams'
+        ? [
+            ...fetch(`getExperimentParams('${key}')`),
+            `  .then(params => {`,
+            `    if (!cancelled${gate ? ' && params' : ''}) ${setter}(params.${parameter} ?? ${defaultValue});`,
+            `  })`,
+          ]
+        : [
+            ...fetch(`getExperiment('${key}')`),
+            `  .then(experiment => {`,
+            `    if (cancelled${gate ? ' || !experiment' : ''}) return;`,
+            `    ${setter}(experiment.metadata?.config?.${parameter} ?? ${defaultValue});`,
+            `    return logExposure('${key}', experiment.variant, ${exposure});`,
+            `  })`,
+          ];
+
+      lines = [
+        `const [${parameter}, ${setter}] = useState${typeArgument}(${defaultValue});`,
+        ``,
+        `useEffect(() => {`,
+        `  let cancelled = false;`,
+        ...lookup.map(line => `  ${line}`),
+        `    .catch(error => console.error('Error loading experiment ${key}:', error));`,
+        `  return () => {`,
+        `    cancelled = true;`,
+        `  };`,
+        `}, []);`,
+      ];
+    } else {
+      const defaultValue = this.controlDefault(contract, parameter);
+      const variable = `${this.camelCase(key)}Experiment`;
+      const lookup = (call: string) => (gate
+        ? `const ${variable} = (await checkGate('${gate}')) ? await ${call} : null;`
+        : `const ${variable} = await ${call};`);
+      const access = gate ? `${variable}?.` : `${variable}.`;
+      lines = codeChange.wrapWith === 'getExperimentParams'
+        ? [
+            lookup(`getExperimentParams('${key}')`),
+            `const ${parameter} = ${access}${parameter} ?? ${defaultValue};`,
+          ]
+        : [
+            lookup(`getExperiment('${key}')`),
+            `const ${parameter} = ${access}metadata?.config?.${parameter} ?? ${defaultValue};`,
+            gate
+              ? `if (${variable}) await logExposure('${key}', ${variable}.variant, ${exposure});`
+              : `await logExposure('${key}', ${variable}.variant, ${exposure});`,
+          ];
+    }
+
+    return [`// Experiment: ${key}`, ...lines, `// End experiment: ${key}`];
+  }
+
+  /**
+   * Control variant's value for a parameter, as a source literal
+   */
+  private controlDefault(contract: ExperimentContract, parameter: string): string {
+    const control = contract.variants.control || contract.variants[Object.keys(contract.variants)[0]];
+    const value = control?.parameters?.[parameter];
+    return value === undefined ? 'undefined' : JSON.stringify(value);
+  }
+
+  /**
+   * Explicit useState type so `false`/`''` defaults don't narrow the state
+   */
+  private stateTypeArgument(file: string, defaultValue: string): string {
+    if (!/\.tsx?$/.test(file) || defaultValue === 'undefined') return '';
+    const type = typeof JSON.parse(defaultValue);
+    return type === 'boolean' || type === 'number' || type === 'string' ? `<${type}>` : '';
+  }
+
+  private camelCase(value: string): string {
+    return value.replace(/[-_]+([a-z0-9])/gi, (_, char: string) => char.toUpperCase());
+  }
+
+  private dedent(code: string): string[] {
+    const lines = code.replace(/^\n+|\s+$/g, '').split('\n');
+    const indents = lines
+      .filter(line => line.trim().length > 0)
+      .map(line => line.length - line.replace(/^\s+/, '').length);
+    const common = indents.length > 0 ? Math.min.apply(null, indents) : 0;
+    return lines.map(line => line.slice(common));
+  }
+
+  /**
+   * Add missing named imports, merging into existing declarations
+   */
+  private addImportEdits(
+    sourceFile: ts.SourceFile,
+    file: string,
+    code: string[],
+    edits: TextEdit[],
+    changes: string[]
+  ): void {
+    const text = code.join('\n');
+    const uses = (name: string) => new RegExp(`\\b${name}\\s*[(<]`).test(text);
+    const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+    const quote = imports.length > 0 && imports[0].moduleSpecifier.getText(sourceFile).charAt(0) === '"' ? '"' : "'";
+    const newImports: string[] = [];
+
+    const ensureImports = (names: string[], isModule: (specifier: string) => boolean, specifier: string) => {
+      const needed = names.filter(uses);
+      if (needed.length === 0) return;
+
+      const existing = imports.find(declaration =>
+        ts.isStringLiteral(declaration.moduleSpecifier) &&
+        isModule(declaration.moduleSpecifier.text) &&
+        !declaration.importClause?.isTypeOnly &&
+        !(declaration.importClause?.namedBindings && ts.isNamespaceImport(declaration.importClause.namedBindings))
+      );
+      const clause = existing?.importClause;
+      const namedImports = clause?.namedBindings && ts.isNamedImports(clause.namedBindings) ? clause.namedBindings : undefined;
+      const imported = namedImports
+        ? namedImports.elements.map(element => (element.propertyName || element.name).text)
+        : [];
+      const missing = needed.filter(name => imported.indexOf(name) === -1);
+      if (missing.length === 0) return;
+
+      if (namedImports) {
+        const elements = namedImports.elements;
+        const position = elements.length > 0 ? elements[elements.length - 1].end : namedImports.getStart(sourceFile) + 1;
+        edits.push({ start: position, end: position, text: `${elements.length > 0 ? ', ' : ' '}${missing.join(', ')}`, order: edits.length });
+      } else if (clause?.name) {
+        edits.push({ start: clause.name.end, end: clause.name.end, text: `, { ${missing.join(', ')} }`, order: edits.length });
+      } else {
+        newImports.push(`import { ${missing.join(', ')} } from ${quote}${specifier}${quote};`);
+      }
+      changes.push(`Imported ${missing.join(', ')} from ${specifier}`);
+    };
+
+    ensureImports(REACT_HOOKS, specifier => specifier === 'react', 'react');
+    ensureImports(
+      STATSIG_CLIENT_EXPORTS,
+      specifier => /(^|\/)lib\/statsigClient$/.test(specifier),
+      this.statsigClientSpecifier(file)
+    );
+
+    if (newImports.length === 0) return;
+
+    if (imports.length > 0) {
+      const position = imports[imports.length - 1].end;
+      edits.push({ start: position, end: position, text: `\n${newImports.join('\n')}`, order: edits.length });
+    } else {
+      const directives = sourceFile.statements.filter(statement =>
+        ts.isExpressionStatement(statement) && ts.isStringLiteral(statement.expression)
+      );
+      const position = directives.length > 0 ? directives[directives.length - 1].end : 0;
+      const text = position > 0 ? `\n\n${newImports.join('\n')}` : `${newImports.join('\n')}\n\n`;
+      edits.push({ start: position, end: position, text, order: edits.length });
+    }
+  }
+
+  /**
+   * Module specifier for src/lib/statsigClient as seen from a file
+   */
+  private statsigClientSpecifier(file: string): string {
+    if (file.startsWith('src/')) {
+      return '@/lib/statsigClient';
+    }
+    const specifier = relative(dirname(file), 'src/lib/statsigClient').split('\\').join('/');
+    return specifier.startsWith('.') ? specifier : `./${specifier}`;
+  }
+
+  /**
+   * Make a synchronous server component async so it can await the lookup
+   */
+  private addAsyncEdits(
+    sourceFile: ts.SourceFile,
+    component: ComponentNode,
+    codeChange: CodeChange,
+    edits: TextEdit[]
+  ): void {
+    // memo()/forwardRef() render functions must stay synchronous
+    if (component.parent && ts.isCallExpression(component.parent)) {
+      throw new Error(
+        `${codeChange.function} in ${codeChange.file} is wrapped in a call (e.g. memo or forwardRef) and cannot be made async; ` +
+          `add 'use client' to the file for a hook-based lookup`
+      );
+    }
+
+    const functionKeyword = component.getChildren(sourceFile).find(child => child.kind === ts.SyntaxKind.FunctionKeyword);
+    const position = functionKeyword ? functionKeyword.getStart(sourceFile) : component.getStart(sourceFile);
+    edits.push({ start: position, end: position, text: 'async ', order: edits.length });
+
+    if (component.type) {
+      edits.push({
+        start: component.type.getStart(sourceFile),
+        end: component.type.end,
+        text: `Promise<${component.type.getText(sourceFile)}>`,
+        order: edits.length,
+      });
+    }
+  }
+
+  /**
+   * Insert (or replace) experiment code in the component body
+   */
+  private addInjectionEdit(
+    sourceFile: ts.SourceFile,
+    component: ComponentNode,
+    codeChange: CodeChange,
+    code: string[],
+    useHooks: boolean,
+    edits: TextEdit[]
+  ): void {
+    const body = component.body!;
+    const baseIndent = this.indentAt(sourceFile, component.getStart(sourceFile));
+
+    // Expression-bodied arrow: convert to a block that returns the expression
+    if (!ts.isBlock(body)) {
+      if (codeChange.insertionPoint === 'replace') {
+        throw new Error(`Cannot replace '${codeChange.parameterUsage}' in expression-bodied ${codeChange.function}`);
+      }
+      const indent = `${baseIndent}  `;
+      const expression = body.getText(sourceFile).split('\n').join('\n  ');
+      const text = `{\n${this.indentLines(code, indent)}\n\n${indent}return ${expression};\n${baseIndent}}`;
+      edits.push({ start: body.getStart(sourceFile), end: body.end, text, order: edits.length });
+      return;
+    }
+
+    const statements = body.statements;
+    const indent = statements.length > 0 ? this.indentAt(sourceFile, statements[0].getStart(sourceFile)) : `${baseIndent}  `;
+    const block = this.indentLines(code, indent);
+    const openBrace = body.getStart(sourceFile) + 1;
+
+    switch (codeChange.insertionPoint) {
+      case 'replace': {
+        const target = statements.find(statement =>
+          ts.isVariableStatement(statement) &&
+          statement.declarationList.declarations.some(declaration =>
+            this.bindsName(declaration.name, codeChange.parameterUsage)
+          )
+        );
+        if (!target) {
+          throw new Error(`No declaration of '${codeChange.parameterUsage}' to replace in ${codeChange.function}`);
+        }
+        edits.push({ start: target.getStart(sourceFile), end: target.end, text: block.slice(indent.length), order: edits.length });
+        return;
+      }
+
+      case 'after': {
+        // After the component's own logic, but ahead of the first top-level
+        // return; hooks also go ahead of any statement holding an early return
+        // so they are still called unconditionally
+        const firstReturn = statements.find(statement =>
+          ts.isReturnStatement(statement) || (useHooks && this.containsReturn(statement))
+        );
+        if (firstReturn) {
+          const position = firstReturn.getStart(sourceFile);
+          edits.push({ start: position, end: position, text: `${block.slice(indent.length)}\n\n${indent}`, order: edits.length });
+        } else {
+          const position = statements.length > 0 ? statements[statements.length - 1].end : openBrace;
+          edits.push({ start: position, end: position, text: `\n${statements.length > 0 ? '\n' : ''}${block}`, order: edits.length });
+        }
+        return;
+      }
+
+      case 'before':
+      default:
+        edits.push({ start: openBrace, end: openBrace, text: `\n${block}${statements.length > 0 ? '\n' : ''}`, order: edits.length });
+    }
+  }
+
+  /**
+   * True if a statement returns from the enclosing function (nested functions excluded)
+   */
+  private containsReturn(node: ts.Node): boolean {
+    if (ts.isReturnStatement(node)) {
+      return true;
+    }
+    if (ts.isFunctionLike(node) || ts.isClassLike(node)) {
+      return false;
+    }
+    return ts.forEachChild(node, child => this.containsReturn(child) || undefined) === true;
+  }
+
+  /**
+   * True if a binding (identifier or destructuring pattern) declares `name`
+   */
+  private bindsName(binding: ts.BindingName, name: string): boolean {
+    if (ts.isIdentifier(binding)) {
+      return binding.text === name;
+    }
+    return binding.elements.some(element =>
+      ts.isBindingElement(element) && this.bindsName(element.name, name)
+    );
+  }
+
+  private indentAt(sourceFile: ts.SourceFile, position: number): string {
+    const lineStart = sourceFile.getPositionOfLineAndCharacter(sourceFile.getLineAndCharacterOfPosition(position).line, 0);
+    const match = sourceFile.text.slice(lineStart, position).match(/^[ \t]*/);
+    return match ? match[0] : '';
+  }
+
+  private indentLines(lines: string[], indent: string): string {
+    return lines.map(line => (line.length > 0 ? `${indent}${line}` : '')).join('\n');
+  }
+
+  /**
+   * Apply edits back to front so earlier offsets stay valid
+   */
+  private applyEdits(content: string, edits: TextEdit[]): string {
+    const ordered = edits.slice().sort((a, b) => b.start - a.start || b.order - a.order);
+    return ordered.reduce(
+      (result, edit) => `${result.slice(0, edit.start)}${edit.text}${result.slice(edit.end)}`,
+      content
+    );
+  }
+
+  private syntaxErrors(content: string, file: string): string[] {
+    const output = ts.transpileModule(content, {
+      fileName: file,
+      reportDiagnostics: true,
+      compilerOptions: { jsx: ts.JsxEmit.Preserve, target: ts.ScriptTarget.Latest },
+    });
+    return (output.diagnostics || []).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+  }
+
+  private scriptKindFor(file: string): ts.ScriptKind {
+    switch (extname(file)) {
+      case '.tsx': return ts.ScriptKind.TSX;
+      case '.jsx': return ts.ScriptKind.JSX;
+      case '.js': return ts.ScriptKind.JS;
+      default: return ts.ScriptKind.TS;
+    }
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * CLI Argument Parsing
+ * Splits argv into positional arguments and --flag / --flag=value options
+ */
+
+/**
+ * Parsed command-line flags
+ */
+export type CLIFlags = Record<string, string | boolean>;
+
+/**
+ * Parsed command line
+ */
+export interface ParsedArgs {
+  positionals: string[];
+  flags: CLIFlags;
+}
+
+/**
+ * Parse argv. `--name value` consumes the next token unless it is another flag;
+ * flags listed in `booleanFlags` never consume a value.
+ */
+export function parseArgs(argv: string[], booleanFlags: string[] = []): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: CLIFlags = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const equalsIndex = arg.indexOf('=');
+    const name = equalsIndex >= 0 ? arg.slice(2, equalsIndex) : arg.slice(2);
+
+    if (equalsIndex >= 0) {
+      flags[name] = arg.slice(equalsIndex + 1);
+    } else if (!booleanFlags.includes(name) && i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      flags[name] = argv[++i];
+    } else {
+      flags[name] = true;
+    }
+  }
+
+  return { positionals, flags };
+}
+
+/**
+ * Read a string flag (undefined when absent or given without a value)
+ */
+export function getStringFlag(flags: CLIFlags, name: string): string | undefined {
+  const value = flags[name];
+  return typeof value === 'string' ? value : undefined;
+}
@@ -0,0 +1,147 @@
+/**
+ * Contract Drift
+ * Field-by-field comparison of the configuration a contract produces with an experiment or gate in Statsig
+ */
+
+/**
+ * One field that differs between the contract and Statsig
+ */
+export interface ConfigDifference {
+  /** Dotted path, e.g. `groups.treatment.parameterValues.bannerText` */
+  field: string;
+  /** Value the contract produces (undefined when Statsig has an extra entry) */
+  contract: unknown;
+  /** Value in Statsig (undefined when missing there) */
+  statsig: unknown;
+}
+
+type Config = Record<string, any>;
+
+/**
+ * Entries of a list keyed by `key`, so reordering is not a difference
+ */
+function keyed(items: unknown, key: (item: Config) => string | undefined, pick: (item: Config) => Config): Config {
+  const result: Config = {};
+  (Array.isArray(items) ? items : []).forEach((item: Config) => {
+    const id = key(item);
+    if (id) result[id] = pick(item);
+  });
+  return result;
+}
+
+function metrics(items: unknown): Config {
+  return keyed(items, metric => metric.name, metric => ({
+    type: metric.type,
+    direction: metric.direction,
+    hypothesizedValue: metric.hypothesizedValue,
+  }));
+}
+
+function rules(items: unknown): Config {
+  return keyed(items, rule => rule.name, rule => ({
+    passPercentage: rule.passPercentage,
+    conditions: rule.conditions,
+    // Missing and null both mean every environment
+    environments: rule.environments ?? undefined,
+  }));
+}
+
+/**
+ * Reduce an experiment configuration (built from a contract or fetched from
+ * Statsig) to the fields the contract owns
+ */
+export function normalizeExperimentConfig(config: Config): Config {
+  return {
+    name: config.name,
+    description: config.description,
+    hypothesis: config.hypothesis,
+    idType: config.idType,
+    layerID: config.layerID ?? undefined,
+    groups: keyed(config.groups, group => group.id || group.name, group => ({
+      name: group.name,
+      size: group.size,
+      parameterValues: group.parameterValues || {},
+      disabled: group.disabled === true,
+    })),
+    primaryMetrics: metrics(config.primaryMetrics),
+    secondaryMetrics: metrics(config.secondaryMetrics),
+    guardrailMetrics: metrics(config.guardrailMetrics),
+    tags: Array.isArray(config.tags) ? [...config.tags].sort() : [],
+    allocation: config.allocation,
+    rules: rules(config.rules),
+    targetingGateID: config.targetingGateID ?? undefined,
+    bonferroniCorrection: config.bonferroniCorrection,
+    defaultConfidenceInterval: config.defaultConfidenceInterval === undefined
+      ? undefined
+      : String(config.defaultConfidenceInterval),
+  };
+}
+
+/**
+ * Reduce a gate configuration to the fields the contract owns
+ */
+export function normalizeGateConfig(config: Config): Config {
+  return {
+    description: config.description,
+    isEnabled: config.isEnabled,
+    rules: rules(config.rules),
+  };
+}
+
+/**
+ * Flatten nested objects to dotted paths; arrays and primitives are leaves
+ */
+function flatten(value: unknown, prefix: string, into: Record<string, unknown>): Record<string, unknown> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    Object.keys(value).forEach(key => flatten((value as Config)[key], prefix ? `${prefix}.${key}` : key, into));
+  } else if (value !== undefined) {
+    into[prefix] = value;
+  }
+  return into;
+}
+
+/**
+ * Fields where two normalized configurations disagree
+ */
+function diffNormalized(expected: Config, actual: Config): ConfigDifference[] {
+  const contract = flatten(expected, '', {});
+  const statsig = flatten(actual, '', {});
+  const fields = Object.keys(contract);
+  Object.keys(statsig).forEach(field => {
+    if (fields.indexOf(field) === -1) fields.push(field);
+  });
+
+  return fields
+    .sort()
+    .filter(field => JSON.stringify(contract[field]) !== JSON.stringify(statsig[field]))
+    .map(field => ({ field, contract: contract[field], statsig: statsig[field] }));
+}
+
+/**
+ * Fields where the contract's experiment configuration and Statsig disagree
+ */
+export function diffExperimentConfig(expected: Config, actual: Config): ConfigDifference[] {
+  return diffNormalized(normalizeExperimentConfig(expected), normalizeExperimentConfig(actual));
+}
+
+/**
+ * Fields where a contract gate and the gate in Statsig disagree
+ */
+export function diffGateConfig(expected: Config, actual: Config): ConfigDifference[] {
+  return diffNormalized(normalizeGateConfig(expected), normalizeGateConfig(actual));
+}
+
+/**
+ * Console lines for a diff, `-` for the contract and `+` for Statsig
+ */
+export function formatConfigDiff(differences: ConfigDifference[]): string[] {
+  const show = (value: unknown) => (value === undefined ? '(missing)' : JSON.stringify(value));
+
+  const lines: string[] = [];
+  differences.forEach(difference => {
+    lines.push(`${difference.field}`);
+    lines.push(`  - contract: ${show(difference.contract)}`);
+    lines.push(`  + statsig:  ${show(difference.statsig)}`);
+  });
+  return lines;
+}
@@ -0,0 +1,137 @@
+/**
+ * Statsig Console API Client
+ * Talks to /console/v1/experiments directly with STATSIG_CONSOLE_API_KEY
+ */
+
+import type { MCPResponse } from './mcp-client.js';
+import type {
+  StatsigBackend,
+  StatsigExperimentConfig,
+  StatsigGateConfig,
+  StatsigLayerConfig,
+} from './statsig-backend.js';
+
+/**
+ * Console API client
+ */
+export class ConsoleAPIClient implements StatsigBackend {
+  readonly kind = 'console' as const;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(apiKey: string, baseUrl: string = 'https://statsigapi.net/console/v1') {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * Send a request and unwrap the { message, data } envelope
+   */
+  private async request(method: string, path: string, body?: any): Promise<MCPResponse> {
+    try {
+      const response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: {
+          'STATSIG-API-KEY': this.apiKey,
+          'Content-Type': 'application/json',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+
+      const text = await response.text();
+      const payload = text ? JSON.parse(text) : {};
+
+      if (!response.ok) {
+        throw new Error(`Statsig Console API error ${response.status}: ${payload.message || text || response.statusText}`);
+      }
+
+      return {
+        success: true,
+        data: payload && typeof payload === 'object' && 'data' in payload ? payload.data : payload,
+      };
+    } catch (error) {
+      console.error(`❌ Console API request failed: ${method} ${path}`, error instanceof Error ? error.message : error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  async createExperiment(config: StatsigExperimentConfig): Promise<MCPResponse> {
+    return this.request('POST', '/experiments', config);
+  }
+
+  async getExperimentDetails(experimentId: string): Promise<MCPResponse> {
+    return this.request('GET', `/experiments/${encodeURIComponent(experimentId)}`);
+  }
+
+  async updateExperiment(experimentId: string, config: any): Promise<MCPResponse> {
+    return this.request('POST', `/experiments/${encodeURIComponent(experimentId)}`, config);
+  }
+
+  async startExperiment(experimentId: string): Promise<MCPResponse> {
+    return this.request('PUT', `/experiments/${encodeURIComponent(experimentId)}/start`);
+  }
+
+  async stopExperiment(experimentId: string): Promise<MCPResponse> {
+    return this.request('PUT', `/experiments/${encodeURIComponent(experimentId)}/abandon`);
+  }
+
+  async archiveExperiment(experimentId: string): Promise<MCPResponse> {
+    return this.request('PUT', `/experiments/${encodeURIComponent(experimentId)}/archive`);
+  }
+
+  async makeDecision(experimentId: string, groupId: string, reason: string): Promise<MCPResponse> {
+    return this.request('PUT', `/experiments/${encodeURIComponent(experimentId)}/make_decision`, {
+      id: groupId,
+      decisionReason: reason,
+    });
+  }
+
+  async listExperiments(): Promise<MCPResponse> {
+    return this.request('GET', '/experiments');
+  }
+
+  async getExperimentResults(experimentId: string, controlGroup: string, testGroup: string): Promise<MCPResponse> {
+    const query = new URLSearchParams({ control: controlGroup, test: testGroup });
+    return this.request('GET', `/experiments/${encodeURIComponent(experimentId)}/pulse_results?${query}`);
+  }
+
+  async getLayer(layerId: string): Promise<MCPResponse> {
+    return this.request('GET', `/layers/${encodeURIComponent(layerId)}`);
+  }
+
+  async createLayer(config: StatsigLayerConfig): Promise<MCPResponse> {
+    return this.request('POST', '/layers', config);
+  }
+
+  async getGate(gateId: string): Promise<MCPResponse> {
+    return this.request('GET', `/gates/${encodeURIComponent(gateId)}`);
+  }
+
+  async createGate(config: StatsigGateConfig): Promise<MCPResponse> {
+    return this.request('POST', '/gates', config);
+  }
+
+  async updateGate(gateId: string, config: StatsigGateConfig): Promise<MCPResponse> {
+    return this.request('POST', `/gates/${encodeURIComponent(gateId)}`, config);
+  }
+
+  async close(): Promise<void> {
+    // Stateless HTTP client; nothing to release
+  }
+}
+
+/**
+ * Create Console API client instance
+ */
+export function createConsoleAPIClient(): ConsoleAPIClient {
+  const apiKey = process.env.STATSIG_CONSOLE_API_KEY;
+
+  if (!apiKey) {
+    throw new Error('Missing STATSIG_CONSOLE_API_KEY environment variable.');
+  }
+
+  return new ConsoleAPIClient(apiKey);
+}
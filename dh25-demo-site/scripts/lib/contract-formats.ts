@@ -0,0 +1,215 @@
+/**
+ * Contract File Formats
+ * Reads JSON, YAML and TypeScript contracts and maps field paths back to source lines
+ */
+
+import * as ts from 'typescript';
+import { LineCounter, parseDocument, isNode, type Document } from 'yaml';
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+import type { RawContract } from './contract-migrations.js';
+
+export type ContractFormat = 'json' | 'yaml' | 'ts';
+
+/**
+ * Contract file suffixes, in lookup order for `contract/<key><suffix>`
+ */
+export const CONTRACT_EXTENSIONS = ['.json', '.yaml', '.yml', '.contract.ts'];
+
+/**
+ * Line/column (1-based) of a location in a contract file
+ */
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * Parsed contract plus what is needed to locate paths in its source
+ */
+export interface ParsedContractFile {
+  format: ContractFormat;
+  raw: RawContract;
+  locate(path: (string | number)[]): SourceLocation | undefined;
+}
+
+/**
+ * Format of a contract file from its name (null when not a contract file)
+ */
+export function contractFormatOf(file: string): ContractFormat | null {
+  if (file.endsWith('.schema.json')) return null;
+  if (file.endsWith('.contract.ts')) return 'ts';
+  if (file.endsWith('.yaml') || file.endsWith('.yml')) return 'yaml';
+  if (file.endsWith('.json')) return 'json';
+  return null;
+}
+
+/**
+ * Experiment key implied by a contract file name
+ */
+export function contractKeyFromFile(file: string): string {
+  const suffix = CONTRACT_EXTENSIONS.find(extension => file.endsWith(extension)) || '';
+  return basename(file).slice(0, basename(file).length - suffix.length);
+}
+
+/**
+ * Error with a source location, raised while parsing a contract file
+ */
+export class ContractParseError extends Error {
+  readonly location?: SourceLocation;
+
+  constructor(message: string, location?: SourceLocation) {
+    super(message);
+    this.name = 'ContractParseError';
+    this.location = location;
+  }
+}
+
+/**
+ * Read and parse a contract file in any supported format
+ */
+export function parseContractFile(path: string): ParsedContractFile {
+  const format = contractFormatOf(path);
+  const text = readFileSync(path, 'utf-8');
+
+  switch (format) {
+    case 'yaml':
+      return parseYaml(text);
+    case 'ts':
+      return parseTypeScript(path, text);
+    case 'json':
+      return parseJson(path, text);
+    default:
+      throw new ContractParseError(`Unsupported contract file type (use ${CONTRACT_EXTENSIONS.join(', ')})`);
+  }
+}
+
+function parseJson(path: string, text: string): ParsedContractFile {
+  const sourceFile = ts.parseJsonText(path, text);
+  let raw: RawContract;
+
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const position = message.match(/position (\d+)/);
+    throw new ContractParseError(
+      `Invalid JSON: ${message}`,
+      position ? toLocation(sourceFile, parseInt(position[1], 10)) : undefined
+    );
+  }
+
+  const root = sourceFile.statements[0]?.expression;
+  return {
+    format: 'json',
+    raw,
+    locate: path => (root ? locateInExpression(sourceFile, root, path) : undefined),
+  };
+}
+
+function parseYaml(text: string): ParsedContractFile {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter });
+
+  if (document.errors.length > 0) {
+    const [error] = document.errors;
+    const position = error.linePos?.[0];
+    throw new ContractParseError(`Invalid YAML: ${error.message.split('\n')[0]}`, position
+      ? { line: position.line, column: position.col }
+      : undefined);
+  }
+
+  return {
+    format: 'yaml',
+    raw: (document.toJS() || {}) as RawContract,
+    locate: path => locateInYaml(document, lineCounter, path),
+  };
+}
+
+function parseTypeScript(path: string, text: string): ParsedContractFile {
+  // Scripts run under tsx, which registers a loader for .ts files
+  const loaded = require(path);
+  const raw = loaded && loaded.default !== undefined ? loaded.default : loaded;
+
+  if (!raw || typeof raw !== 'object') {
+    throw new ContractParseError('TypeScript contract must `export default defineContract({ ... })`');
+  }
+
+  const sourceFile = ts.createSourceFile(path, text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+  const root = findDefaultExportObject(sourceFile);
+
+  return {
+    format: 'ts',
+    raw: JSON.parse(JSON.stringify(raw)),
+    locate: path => (root ? locateInExpression(sourceFile, root, path) : undefined),
+  };
+}
+
+/**
+ * Object literal behind `export default defineContract({...})` or `export default {...}`
+ */
+function findDefaultExportObject(sourceFile: ts.SourceFile): ts.Expression | undefined {
+  for (const statement of sourceFile.statements) {
+    if (!ts.isExportAssignment(statement)) continue;
+
+    let expression: ts.Expression = statement.expression;
+    while (ts.isCallExpression(expression) || ts.isAsExpression(expression) ||
+      ts.isSatisfiesExpression(expression) || ts.isParenthesizedExpression(expression)) {
+      expression = ts.isCallExpression(expression) ? expression.arguments[0] : expression.expression;
+      if (!expression) return undefined;
+    }
+    return expression;
+  }
+  return undefined;
+}
+
+/**
+ * Walk object/array literals to the node for a path (nearest ancestor if missing)
+ */
+function locateInExpression(
+  sourceFile: ts.SourceFile,
+  root: ts.Expression,
+  path: (string | number)[]
+): SourceLocation {
+  let node: ts.Node = root;
+
+  for (const segment of path) {
+    let next: ts.Node | undefined;
+
+    if (ts.isObjectLiteralExpression(node)) {
+      const property = node.properties.find(candidate =>
+        candidate.name !== undefined &&
+        (ts.isIdentifier(candidate.name) || ts.isStringLiteral(candidate.name) || ts.isNumericLiteral(candidate.name)) &&
+        candidate.name.text === String(segment)
+      );
+      if (property) {
+        next = ts.isPropertyAssignment(property) ? property.initializer : property;
+      }
+    } else if (ts.isArrayLiteralExpression(node) && typeof segment === 'number') {
+      next = node.elements[segment];
+    }
+
+    if (!next) break;
+    node = next;
+  }
+
+  // Point at the property key when the value sits on the same line
+  const target = node.parent && ts.isPropertyAssignment(node.parent) ? node.parent : node;
+  return toLocation(sourceFile, target.getStart(sourceFile));
+}
+
+function locateInYaml(document: Document, lineCounter: LineCounter, path: (string | number)[]): SourceLocation | undefined {
+  for (let depth = path.length; depth >= 0; depth--) {
+    const node = depth === 0 ? document.contents : document.getIn(path.slice(0, depth), true);
+    if (isNode(node) && node.range) {
+      const position = lineCounter.linePos(node.range[0]);
+      return { line: position.line, column: position.col };
+    }
+  }
+  return undefined;
+}
+
+function toLocation(sourceFile: ts.SourceFile, position: number): SourceLocation {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(position);
+  return { line: line + 1, column: character + 1 };
+}
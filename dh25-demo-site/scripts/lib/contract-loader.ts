@@ -0,0 +1,184 @@
+/**
+ * Contract Loader
+ * Finds and validates every experiment contract in the contract/ directory
+ */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, relative, resolve } from 'path';
+import { parseDocument } from 'yaml';
+import {
+  CONTRACT_SCHEMA_FILE,
+  ContractValidationError,
+  generateContractJsonSchema,
+  validateContract,
+  type ExperimentContract,
+} from './contract-schema.js';
+import { migrateContract, type MigrationResult } from './contract-migrations.js';
+import { applyContractTemplate } from './contract-templates.js';
+import {
+  CONTRACT_EXTENSIONS,
+  ContractParseError,
+  contractFormatOf,
+  contractKeyFromFile,
+  parseContractFile,
+} from './contract-formats.js';
+
+/**
+ * Directory (relative to the project root) holding experiment contracts
+ */
+export const CONTRACT_DIR = 'contract';
+
+/**
+ * Validated contract together with the file it came from
+ */
+export interface LoadedContract {
+  file: string;
+  contract: ExperimentContract;
+  /** Schema version of the file when it had to be migrated in memory */
+  migratedFrom?: number;
+}
+
+/**
+ * Contract files (JSON, YAML, *.contract.ts) in the contract directory
+ */
+export function listContractFiles(projectRoot: string): string[] {
+  const contractDir = join(projectRoot, CONTRACT_DIR);
+  if (!existsSync(contractDir)) {
+    return [];
+  }
+
+  return readdirSync(contractDir)
+    .filter(file => contractFormatOf(file) !== null)
+    .sort()
+    .map(file => join(CONTRACT_DIR, file));
+}
+
+/**
+ * Contract file for an experiment key, whichever format it uses
+ */
+export function findContractFile(projectRoot: string, experimentKey: string): string | null {
+  const candidates = CONTRACT_EXTENSIONS
+    .map(extension => join(CONTRACT_DIR, `${experimentKey}${extension}`))
+    .filter(file => existsSync(join(projectRoot, file)));
+
+  if (candidates.length > 1) {
+    throw new Error(`Multiple contracts for ${experimentKey}: ${candidates.join(', ')}`);
+  }
+  return candidates[0] || null;
+}
+
+/**
+ * Load a single contract file: parse it, migrate older versions in memory,
+ * merge its `extends` template, then validate. Errors carry file/line locations.
+ */
+export function loadContractFile(projectRoot: string, file: string): LoadedContract {
+  const path = resolve(projectRoot, file);
+  const displayFile = relative(projectRoot, path) || file;
+  let parsed;
+
+  try {
+    parsed = parseContractFile(path);
+  } catch (error) {
+    if (error instanceof ContractParseError && error.location) {
+      throw new Error(`${displayFile}:${error.location.line}:${error.location.column}: ${error.message}`);
+    }
+    throw new Error(`${displayFile}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  try {
+    const migration = migrateContract(parsed.raw);
+    const contract = validateContract(applyContractTemplate(projectRoot, migration.contract));
+    return migration.changes.length > 0
+      ? { file, contract, migratedFrom: migration.fromVersion }
+      : { file, contract };
+  } catch (error) {
+    if (error instanceof ContractValidationError) {
+      throw new ContractValidationError(error.issues.map(issue => ({
+        ...issue,
+        file: displayFile,
+        ...parsed.locate(issue.path),
+      })));
+    }
+    throw new Error(`${displayFile}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Load and validate every contract, failing on the first invalid one
+ */
+export function loadAllContracts(projectRoot: string): LoadedContract[] {
+  const loaded = listContractFiles(projectRoot).map(file => loadContractFile(projectRoot, file));
+
+  loaded.forEach(({ file, contract }) => {
+    const expected = contractKeyFromFile(file);
+    if (contract.experimentKey !== expected) {
+      console.warn(`⚠️  ${file} declares experimentKey '${contract.experimentKey}' (expected '${expected}')`);
+    }
+  });
+
+  return loaded;
+}
+
+/**
+ * Outcome of upgrading one contract file on disk
+ */
+export interface ContractFileMigration extends Omit<MigrationResult, 'contract'> {
+  file: string;
+  backup?: string;
+}
+
+/**
+ * Upgrade a contract file in place, keeping the original as <file>.v<N>.bak
+ */
+export function migrateContractFile(projectRoot: string, file: string): ContractFileMigration {
+  const path = resolve(projectRoot, file);
+  const original = readFileSync(path, 'utf-8');
+  const parsed = parseContractFile(path);
+  const { contract, ...migration } = migrateContract(parsed.raw);
+
+  if (migration.changes.length === 0) {
+    return { file, ...migration };
+  }
+  if (parsed.format === 'ts') {
+    throw new Error(`TypeScript contracts are not rewritten; apply by hand:\n  ${migration.changes.join('\n  ')}`);
+  }
+
+  // Never write a file that would not load afterwards
+  validateContract(applyContractTemplate(projectRoot, contract));
+
+  const backup = `${file}.v${migration.fromVersion}.bak`;
+  writeFileSync(resolve(projectRoot, backup), original);
+  writeFileSync(path, parsed.format === 'yaml'
+    ? updateYamlDocument(original, parsed.raw, contract)
+    : `${JSON.stringify(contract, null, 2)}\n`);
+
+  return { file, backup, ...migration };
+}
+
+/**
+ * Apply top-level changes to a YAML document, keeping comments elsewhere
+ */
+function updateYamlDocument(text: string, before: Record<string, any>, after: Record<string, any>): string {
+  const document = parseDocument(text);
+
+  Object.keys(before).forEach(key => {
+    if (!(key in after)) document.delete(key);
+  });
+  Object.keys(after).forEach(key => {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      document.set(key, after[key]);
+    }
+  });
+
+  return document.toString();
+}
+
+/**
+ * Write contract/contract.schema.json for editor validation and autocompletion
+ */
+export function writeContractJsonSchema(projectRoot: string): string {
+  const file = join(CONTRACT_DIR, CONTRACT_SCHEMA_FILE);
+  mkdirSync(join(projectRoot, CONTRACT_DIR), { recursive: true });
+  writeFileSync(join(projectRoot, file), `${JSON.stringify(generateContractJsonSchema(), null, 2)}\n`);
+  return file;
+}
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getContractVersion, migrateContract } from './contract-migrations.js';
+import { CONTRACT_SCHEMA_VERSION } from './contract-schema.js';
+
+test('contracts without schemaVersion are v1', () => {
+  assert.equal(getContractVersion({ experimentKey: 'legacy' }), 1);
+  assert.equal(getContractVersion({ schemaVersion: 2 }), 2);
+});
+
+test('migrateContract upgrades v1 to the current version', () => {
+  const result = migrateContract({ experimentKey: 'legacy', name: 'Legacy' });
+
+  assert.equal(result.fromVersion, 1);
+  assert.equal(result.toVersion, CONTRACT_SCHEMA_VERSION);
+  assert.deepEqual(result.contract, {
+    $schema: './contract.schema.json',
+    schemaVersion: 2,
+    experimentKey: 'legacy',
+    name: 'Legacy',
+  });
+  assert.deepEqual(result.changes, [
+    'v1 → v2: Added "$schema": "./contract.schema.json"',
+    'v1 → v2: Added "schemaVersion": 2',
+  ]);
+});
+
+test('migrateContract keeps an existing $schema reference', () => {
+  const result = migrateContract({ $schema: '../schema.json', experimentKey: 'legacy' });
+
+  assert.equal(result.contract.$schema, '../schema.json');
+  assert.deepEqual(result.changes, ['v1 → v2: Added "schemaVersion": 2']);
+});
+
+test('migrateContract leaves current contracts alone and rejects newer ones', () => {
+  const current = { schemaVersion: CONTRACT_SCHEMA_VERSION, experimentKey: 'current' };
+  const result = migrateContract(current);
+
+  assert.equal(result.contract, current);
+  assert.deepEqual(result.changes, []);
+  assert.throws(() => migrateContract({ schemaVersion: CONTRACT_SCHEMA_VERSION + 1 }), /newer than this tooling supports/);
+});
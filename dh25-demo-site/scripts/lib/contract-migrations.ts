@@ -0,0 +1,93 @@
+/**
+ * Contract Migrations
+ * Upgrades contract files written for older versions of the contract schema
+ */
+
+import { CONTRACT_SCHEMA_FILE, CONTRACT_SCHEMA_VERSION } from './contract-schema.js';
+
+/**
+ * Raw (unvalidated) contract JSON
+ */
+export type RawContract = Record<string, any>;
+
+/**
+ * Upgrade from one schema version to the next
+ */
+export interface ContractMigration {
+  from: number;
+  to: number;
+  description: string;
+  /** Returns the upgraded contract and a line per transformation applied */
+  migrate(contract: RawContract): { contract: RawContract; changes: string[] };
+}
+
+/**
+ * Outcome of migrating one contract to the current version
+ */
+export interface MigrationResult {
+  contract: RawContract;
+  fromVersion: number;
+  toVersion: number;
+  changes: string[];
+}
+
+/**
+ * Registered migrations, one per version step
+ */
+export const CONTRACT_MIGRATIONS: ContractMigration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'Add schemaVersion and the editor $schema reference',
+    migrate(contract) {
+      const changes: string[] = [];
+      const { $schema, ...rest } = contract;
+      const schemaRef = $schema || `./${CONTRACT_SCHEMA_FILE}`;
+
+      if (!$schema) {
+        changes.push(`Added "$schema": "${schemaRef}"`);
+      }
+      changes.push('Added "schemaVersion": 2');
+
+      return { contract: { $schema: schemaRef, schemaVersion: 2, ...rest }, changes };
+    },
+  },
+];
+
+/**
+ * Schema version declared by a contract (files from before versioning are v1)
+ */
+export function getContractVersion(contract: RawContract): number {
+  return typeof contract.schemaVersion === 'number' ? contract.schemaVersion : 1;
+}
+
+/**
+ * Apply every migration between the contract's version and the current one
+ */
+export function migrateContract(contract: RawContract): MigrationResult {
+  const fromVersion = getContractVersion(contract);
+
+  if (fromVersion > CONTRACT_SCHEMA_VERSION) {
+    throw new Error(
+      `Contract schema version ${fromVersion} is newer than this tooling supports (${CONTRACT_SCHEMA_VERSION})`
+    );
+  }
+
+  let current = contract;
+  let version = fromVersion;
+  const changes: string[] = [];
+
+  while (version < CONTRACT_SCHEMA_VERSION) {
+    const migration = CONTRACT_MIGRATIONS.find(candidate => candidate.from === version);
+    if (!migration) {
+      throw new Error(`No migration registered from contract schema version ${version}`);
+    }
+
+    const step = migration.migrate(current);
+    current = step.contract;
+    changes.push(...step.changes.map(change => `v${migration.from} → v${migration.to}: ${change}`));
+    version = migration.to;
+  }
+
+  return { contract: current, fromVersion, toVersion: version, changes };
+}
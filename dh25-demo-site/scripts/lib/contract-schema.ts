@@ -4,6 +4,12 @@
  */
 
 import { z } from 'zod';
+import { variantBasisPoints } from './variant-split.js';
+
+/**
+ * Current contract format version (bump together with a migration in contract-migrations.ts)
+ */
+export const CONTRACT_SCHEMA_VERSION = 2;
 
 /**
  * Schema for individual variant configuration
@@ -13,6 +19,10 @@ export const VariantSchema = z.object({
   description: z.string().optional(),
   parameters: z.record(z.string(), z.any()).default({}),
   passPercentage: z.number().min(0).max(100).default(50),
+  // Served the control's parameters and never compared as a treatment
+  holdout: z.boolean().optional(),
+  // Kept in Statsig without traffic; passPercentage is ignored
+  disabled: z.boolean().optional(),
 });
 
 /**
@@ -25,6 +35,8 @@ export const CodeChangeSchema = z.object({
   parameterUsage: z.string().min(1, 'Parameter usage is required'),
   insertionPoint: z.enum(['before', 'after', 'replace']).default('before'),
   customCode: z.string().optional(),
+  // Contract gate checked with checkGate before the experiment lookup
+  gate: z.string().optional(),
 });
 
 /**
@@ -47,6 +59,17 @@ export const TargetingRuleSchema = z.object({
   environments: z.array(z.string()).optional(),
 });
 
+/**
+ * Schema for feature gates created alongside the experiment
+ */
+export const GateSchema = z.object({
+  name: z.string().regex(/^[a-z0-9_-]+$/i, 'Gate name may only contain letters, numbers, _ and -'),
+  description: z.string().optional(),
+  // Share of users matching any rule (everyone when there are none) who pass
+  passPercentage: z.number().min(0).max(100).default(100),
+  rules: z.array(TargetingRuleSchema.omit({ passPercentage: true })).default([]),
+});
+
 /**
  * Schema for primary metrics
  */
@@ -55,12 +78,44 @@ export const PrimaryMetricSchema = z.object({
   type: z.enum(['count', 'ratio', 'revenue', 'duration']).default('count'),
   direction: z.enum(['increase', 'decrease']).default('increase'),
   hypothesizedValue: z.number().optional(),
+  // Event-log analysis (scripts/lib/analysis); event defaults to the metric name
+  event: z.string().optional(),
+  denominatorEvent: z.string().optional(),
+  valueField: z.string().optional(),
+});
+
+/**
+ * Schema for gradual rollout of the allocation, applied by `experiment rollout tick`
+ */
+export const RolloutScheduleSchema = z.object({
+  // Day 1 of the schedule; defaults to when the experiment started
+  startDate: z.string().refine(value => !isNaN(Date.parse(value)), 'startDate must be a date like 2025-01-31').optional(),
+  steps: z.array(z.object({
+    day: z.number().int().min(1),
+    allocation: z.number().gt(0).max(100),
+  })).min(1, 'At least one rollout step is required'),
+});
+
+/**
+ * Schema for guardrail metrics, watched by `experiment watch`
+ */
+export const GuardrailMetricSchema = PrimaryMetricSchema.omit({ hypothesizedValue: true }).extend({
+  // Largest tolerated regression against control (percent) before the experiment is stopped
+  threshold: z.number().min(0).default(0),
 });
 
 /**
  * Main Contract Schema
  */
 export const ExperimentContractSchema = z.object({
+  // JSON Schema reference for editors (ignored by validation)
+  $schema: z.string().optional(),
+  schemaVersion: z.literal(CONTRACT_SCHEMA_VERSION, {
+    error: `Contract must declare schemaVersion ${CONTRACT_SCHEMA_VERSION}; run \`npm run experiment migrate\``,
+  }),
+  // Template in contract/templates/ merged underneath this contract
+  extends: z.string().optional(),
+
   // Basic experiment info
   experimentKey: z.string().min(1, 'Experiment key is required'),
   name: z.string().min(1, 'Experiment name is required'),
@@ -76,13 +131,19 @@ export const ExperimentContractSchema = z.object({
   // Code changes to implement
   codeChanges: z.array(CodeChangeSchema).min(1, 'At least one code change is required'),
   
+  // Statsig layer; experiments sharing a layer never see the same user
+  layer: z.string().regex(/^[a-z0-9_-]+$/i, 'Layer name may only contain letters, numbers, _ and -').optional(),
+
   // Targeting and rollout
   targetingRules: z.array(TargetingRuleSchema).default([]),
+  gates: z.array(GateSchema).default([]),
   allocation: z.number().min(0).max(100).default(100),
+  rolloutSchedule: RolloutScheduleSchema.optional(),
   
   // Metrics
   primaryMetrics: z.array(PrimaryMetricSchema).default([]),
   secondaryMetrics: z.array(PrimaryMetricSchema).default([]),
+  guardrailMetrics: z.array(GuardrailMetricSchema).default([]),
   
   // Branch configuration (CRITICAL for branch-based experiments)
   branchConfig: z.object({
@@ -105,6 +166,9 @@ export const ExperimentContractSchema = z.object({
     environment: z.enum(['development', 'staging', 'production']).default('development'),
     autoStart: z.boolean().default(false),
     targetingGateID: z.string().optional(),
+    // Results analysis (also sent to Statsig)
+    confidenceInterval: z.number().gt(50).lt(100).default(95),
+    bonferroniCorrection: z.boolean().default(false),
   }),
   
   // Metadata
@@ -114,8 +178,182 @@ export const ExperimentContractSchema = z.object({
     estimatedDuration: z.string().optional(),
     successCriteria: z.string().optional(),
   }).default(() => ({ tags: [] })),
+}).superRefine((contract, ctx) => {
+  const variantNames = Object.keys(contract.variants);
+  const referenceName = 'control' in contract.variants ? 'control' : variantNames[0];
+  const reference = contract.variants[referenceName];
+  const parameterNames: string[] = [];
+
+  variantNames.forEach(name => {
+    Object.keys(contract.variants[name].parameters).forEach(key => {
+      if (parameterNames.indexOf(key) === -1) parameterNames.push(key);
+    });
+  });
+
+  // Every variant must define the same parameters with the same JSON types
+  variantNames.forEach(name => {
+    const parameters = contract.variants[name].parameters;
+
+    parameterNames.forEach(key => {
+      if (!(key in parameters)) {
+        const definedIn = variantNames.filter(other => key in contract.variants[other].parameters);
+        ctx.addIssue({
+          code: 'custom',
+          path: ['variants', name, 'parameters'],
+          message: `Missing parameter '${key}' (defined in ${definedIn.map(other => `'${other}'`).join(', ')})`,
+        });
+        return;
+      }
+
+      if (name !== referenceName && reference && key in reference.parameters) {
+        const actual = jsonType(parameters[key]);
+        const expected = jsonType(reference.parameters[key]);
+        if (actual !== expected) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['variants', name, 'parameters', key],
+            message: `Parameter '${key}' is ${actual} but ${expected} in '${referenceName}'`,
+          });
+        }
+      }
+    });
+  });
+
+  if (reference && (reference.holdout || reference.disabled)) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['variants', referenceName],
+      message: `The control variant '${referenceName}' cannot be a holdout or disabled`,
+    });
+  }
+
+  // A holdout must look exactly like control
+  variantNames
+    .filter(name => name !== referenceName && contract.variants[name].holdout)
+    .forEach(name => {
+      Object.keys(contract.variants[name].parameters).forEach(key => {
+        if (reference && JSON.stringify(contract.variants[name].parameters[key]) !== JSON.stringify(reference.parameters[key])) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['variants', name, 'parameters', key],
+            message: `Holdout '${name}' must use the control value of '${key}'`,
+          });
+        }
+      });
+    });
+
+  // Splits are sent to Statsig in basis points (0.01%)
+  const enabledNames = variantNames.filter(name => !contract.variants[name].disabled);
+  const totalPercentage = enabledNames.reduce((sum, name) => sum + contract.variants[name].passPercentage, 0);
+  if (Math.abs(totalPercentage - 100) >= 0.01) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['variants'],
+      message: `Variant passPercentage values must sum to 100 (got ${totalPercentage}` +
+        `${enabledNames.length < variantNames.length ? ', disabled variants excluded' : ''})`,
+    });
+  } else {
+    const basisPoints = variantBasisPoints(contract.variants);
+    enabledNames
+      .filter(name => contract.variants[name].passPercentage > 0 && basisPoints[name] === 0)
+      .forEach(name => {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['variants', name, 'passPercentage'],
+          message: `passPercentage ${contract.variants[name].passPercentage} is below the smallest Statsig split (0.01%)`,
+        });
+      });
+  }
+
+  // Rollout steps move forward in time and never shrink the allocation
+  (contract.rolloutSchedule?.steps || []).forEach((step, index, steps) => {
+    const previous = steps[index - 1];
+    if (previous && step.day <= previous.day) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['rolloutSchedule', 'steps', index, 'day'],
+        message: `Rollout step days must increase (day ${step.day} follows day ${previous.day})`,
+      });
+    }
+    if (previous && step.allocation < previous.allocation) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['rolloutSchedule', 'steps', index, 'allocation'],
+        message: `Rollout allocation must not decrease (${step.allocation}% follows ${previous.allocation}%)`,
+      });
+    }
+  });
+
+  const expectedBranch = `exp/${contract.experimentKey}`;
+  if (contract.branchConfig.branchName !== expectedBranch) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['branchConfig', 'branchName'],
+      message: `Branch name must be '${expectedBranch}' (got '${contract.branchConfig.branchName}')`,
+    });
+  }
+
+  const checkConditions = (rule: { conditions: TargetingCondition[] }, path: Array<string | number>) => {
+    rule.conditions.forEach((condition, index) => {
+      if (condition.type === 'custom_field' && !condition.field) {
+        ctx.addIssue({
+          code: 'custom',
+          path: [...path, 'conditions', index, 'field'],
+          message: `custom_field conditions need a 'field' (the StatsigUser custom key)`,
+        });
+      }
+    });
+  };
+  contract.targetingRules.forEach((rule, index) => checkConditions(rule, ['targetingRules', index]));
+
+  const gateNames = contract.gates.map(gate => gate.name);
+  contract.gates.forEach((gate, gateIndex) => {
+    if (gateNames.indexOf(gate.name) !== gateIndex) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['gates', gateIndex, 'name'],
+        message: `Gate '${gate.name}' is declared more than once`,
+      });
+    }
+    gate.rules.forEach((rule, index) => checkConditions(rule, ['gates', gateIndex, 'rules', index]));
+  });
+
+  contract.codeChanges.forEach((codeChange, index) => {
+    if (parameterNames.indexOf(codeChange.parameterUsage) === -1) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['codeChanges', index, 'parameterUsage'],
+        message: `'${codeChange.parameterUsage}' is not a variant parameter` +
+          (parameterNames.length > 0 ? ` (expected one of: ${parameterNames.join(', ')})` : ''),
+      });
+    }
+    if (codeChange.gate && gateNames.indexOf(codeChange.gate) === -1) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['codeChanges', index, 'gate'],
+        message: `'${codeChange.gate}' is not a gate declared in 'gates'` +
+          (gateNames.length > 0 ? ` (expected one of: ${gateNames.join(', ')})` : ''),
+      });
+    }
+    if (codeChange.gate && codeChange.customCode) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['codeChanges', index, 'gate'],
+        message: `'gate' is not applied to customCode; call checkGate in the custom code instead`,
+      });
+    }
+  });
 });
 
+/**
+ * JSON type name used when comparing parameter values across variants
+ */
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
 /**
  * Type definitions derived from schemas
  */
@@ -123,7 +361,10 @@ export type Variant = z.infer<typeof VariantSchema>;
 export type CodeChange = z.infer<typeof CodeChangeSchema>;
 export type TargetingCondition = z.infer<typeof TargetingConditionSchema>;
 export type TargetingRule = z.infer<typeof TargetingRuleSchema>;
+export type FeatureGate = z.infer<typeof GateSchema>;
 export type PrimaryMetric = z.infer<typeof PrimaryMetricSchema>;
+export type GuardrailMetric = z.infer<typeof GuardrailMetricSchema>;
+export type RolloutSchedule = z.infer<typeof RolloutScheduleSchema>;
 export type ExperimentContract = z.infer<typeof ExperimentContractSchema>;
 
 /**
@@ -134,20 +375,94 @@ export function validateContract(contract: unknown): ExperimentContract {
     return ExperimentContractSchema.parse(contract);
   } catch (error) {
     if (error instanceof z.ZodError) {
-      const errorMessages = error.issues.map((err: any) => 
-        `${err.path.join('.')}: ${err.message}`
-      ).join('\n');
-      throw new Error(`Contract validation failed:\n${errorMessages}`);
+      throw new ContractValidationError(error.issues.map(issue => ({
+        path: issue.path.filter((segment): segment is string | number => typeof segment !== 'symbol'),
+        message: issue.message,
+      })));
     }
     throw error;
   }
 }
 
+/**
+ * Single validation problem, optionally located in the source file
+ */
+export interface ContractIssue {
+  path: (string | number)[];
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Contract validation failure carrying every issue found
+ */
+export class ContractValidationError extends Error {
+  readonly issues: ContractIssue[];
+
+  constructor(issues: ContractIssue[]) {
+    super(`Contract validation failed:\n${issues.map(formatContractIssue).join('\n')}`);
+    this.name = 'ContractValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Render an issue as `file:line:column: path: message`
+ */
+export function formatContractIssue(issue: ContractIssue): string {
+  const location = issue.file
+    ? `${issue.file}${issue.line ? `:${issue.line}${issue.column ? `:${issue.column}` : ''}` : ''}: `
+    : '';
+  const path = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+  return `${location}${path}${issue.message}`;
+}
+
+/**
+ * Contract as authored (defaults optional); used by <key>.contract.ts files
+ */
+export type ContractDefinition =
+  | z.input<typeof ExperimentContractSchema>
+  | (Partial<z.input<typeof ExperimentContractSchema>> & { extends: string; experimentKey: string; schemaVersion: number });
+
+/**
+ * Type-checked helper for TypeScript contracts:
+ * `export default defineContract({ ... })`
+ */
+export function defineContract<T extends ContractDefinition>(contract: T): T {
+  return contract;
+}
+
+/**
+ * File name of the generated JSON Schema (next to the contracts)
+ */
+export const CONTRACT_SCHEMA_FILE = 'contract.schema.json';
+
+/**
+ * JSON Schema for contract files, describing the input accepted by validateContract
+ */
+export function generateContractJsonSchema(): Record<string, unknown> {
+  const { required, ...schema } = z.toJSONSchema(ExperimentContractSchema, { io: 'input' }) as Record<string, any>;
+
+  // Contracts that extend a template may leave any top-level field to the template
+  return {
+    ...schema,
+    title: 'Experiment Contract',
+    description: 'Branch-based Statsig experiment definition (generated by `npm run experiment:schema`)',
+    if: { required: ['extends'] },
+    then: { required: ['schemaVersion', 'experimentKey'] },
+    else: { required },
+  };
+}
+
 /**
  * Create default contract template
  */
 export function createDefaultContract(experimentKey: string): Partial<ExperimentContract> {
   return {
+    $schema: `./${CONTRACT_SCHEMA_FILE}`,
+    schemaVersion: CONTRACT_SCHEMA_VERSION,
     experimentKey,
     name: `Experiment: ${experimentKey}`,
     description: 'Experiment description goes here',
@@ -195,6 +510,8 @@ export function createDefaultContract(experimentKey: string): Partial<Experiment
       idType: 'user_id',
       environment: 'development',
       autoStart: false,
+      confidenceInterval: 95,
+      bonferroniCorrection: false,
     },
     metadata: {
       tags: ['automated', 'branch-based'],
@@ -0,0 +1,132 @@
+/**
+ * Contract Templates
+ * Shared contract defaults in contract/templates/, applied through `extends`
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { basename, join } from 'path';
+import type { RawContract } from './contract-migrations.js';
+
+/**
+ * Directory (relative to the project root) holding contract templates
+ */
+export const TEMPLATE_DIR = 'contract/templates';
+
+/**
+ * Summary of a template file
+ */
+export interface TemplateInfo {
+  name: string;
+  file: string;
+  description?: string;
+  extends?: string;
+  fields: string[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge objects; arrays and scalars from `override` replace those in `base`
+ */
+export function deepMerge(base: Record<string, any>, override: Record<string, any>): Record<string, any> {
+  const merged: Record<string, any> = { ...base };
+
+  Object.keys(override).forEach(key => {
+    merged[key] = isPlainObject(base[key]) && isPlainObject(override[key])
+      ? deepMerge(base[key], override[key])
+      : override[key];
+  });
+
+  return merged;
+}
+
+/**
+ * Replace {{experimentKey}} in every string of a template
+ */
+function interpolate(value: any, variables: Record<string, string>): any {
+  if (typeof value === 'string') {
+    return value.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+      name in variables ? variables[name] : match
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolate(item, variables));
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, any> = {};
+    Object.keys(value).forEach(key => {
+      result[key] = interpolate(value[key], variables);
+    });
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Read a template by name (without the .json extension)
+ */
+export function loadTemplate(projectRoot: string, name: string): RawContract {
+  const file = join(projectRoot, TEMPLATE_DIR, `${name.replace(/\.json$/, '')}.json`);
+  if (!existsSync(file)) {
+    const available = listTemplates(projectRoot).map(template => template.name);
+    throw new Error(
+      `Contract template not found: ${name}` +
+      (available.length > 0 ? ` (available: ${available.join(', ')})` : '')
+    );
+  }
+  return JSON.parse(readFileSync(file, 'utf-8'));
+}
+
+/**
+ * Template contents with its own `extends` chain applied (base first)
+ */
+export function resolveTemplate(projectRoot: string, name: string, chain: string[] = []): RawContract {
+  if (chain.indexOf(name) >= 0) {
+    throw new Error(`Circular template extends: ${[...chain, name].join(' → ')}`);
+  }
+
+  const { extends: parent, $comment, ...template } = loadTemplate(projectRoot, name);
+  return parent
+    ? deepMerge(resolveTemplate(projectRoot, parent, [...chain, name]), template)
+    : template;
+}
+
+/**
+ * Merge the contract over its `extends` template (no-op without `extends`)
+ */
+export function applyContractTemplate(projectRoot: string, contract: RawContract): RawContract {
+  if (!contract.extends) {
+    return contract;
+  }
+
+  const template = interpolate(resolveTemplate(projectRoot, contract.extends), {
+    experimentKey: String(contract.experimentKey ?? ''),
+  });
+  return deepMerge(template, contract);
+}
+
+/**
+ * All templates in contract/templates/
+ */
+export function listTemplates(projectRoot: string): TemplateInfo[] {
+  const dir = join(projectRoot, TEMPLATE_DIR);
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => {
+      const { extends: parent, $comment, ...template } = JSON.parse(readFileSync(join(dir, file), 'utf-8'));
+      return {
+        name: basename(file, '.json'),
+        file: `${TEMPLATE_DIR}/${file}`,
+        description: $comment,
+        extends: parent,
+        fields: Object.keys(template),
+      };
+    });
+}
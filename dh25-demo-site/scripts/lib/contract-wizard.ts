@@ -0,0 +1,370 @@
+/**
+ * Interactive Contract Wizard
+ * Prompts for the pieces of an experiment contract and writes contract/<key>.json
+ */
+
+import * as ts from 'typescript';
+import { createInterface, type Interface } from 'readline';
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { join, relative } from 'path';
+import {
+  createDefaultContract,
+  validateContract,
+  type ExperimentContract,
+  type PrimaryMetric,
+  type TargetingRule,
+  type Variant,
+} from './contract-schema.js';
+import { CONTRACT_DIR, findContractFile } from './contract-loader.js';
+
+/**
+ * React component found in the project
+ */
+export interface DiscoveredComponent {
+  file: string;
+  name: string;
+}
+
+/**
+ * Line-based prompter that also works with piped stdin
+ */
+class Prompter {
+  private rl: Interface;
+  private lines: string[] = [];
+  private waiting: ((line: string) => void) | null = null;
+  private closed = false;
+
+  constructor() {
+    this.rl = createInterface({ input: process.stdin, output: process.stdout });
+    this.rl.on('line', line => {
+      if (this.waiting) {
+        const resolve = this.waiting;
+        this.waiting = null;
+        resolve(line);
+      } else {
+        this.lines.push(line);
+      }
+    });
+    this.rl.on('close', () => {
+      this.closed = true;
+      if (this.waiting) {
+        const resolve = this.waiting;
+        this.waiting = null;
+        resolve('');
+      }
+    });
+  }
+
+  /**
+   * Ask a free-form question (empty answer → default)
+   */
+  async ask(question: string, defaultValue: string = ''): Promise<string> {
+    process.stdout.write(`${question}${defaultValue ? ` (${defaultValue})` : ''}: `);
+    const answer = (await this.nextLine()).trim();
+    return answer || defaultValue;
+  }
+
+  /**
+   * Ask until the answer is not empty
+   */
+  async askRequired(question: string): Promise<string> {
+    for (;;) {
+      const answer = await this.ask(question);
+      if (answer) {
+        return answer;
+      }
+      if (this.exhausted) {
+        throw new Error(`Input ended before '${question.trim()}' was answered`);
+      }
+      console.log('⚠️  A value is required');
+    }
+  }
+
+  /**
+   * Ask a yes/no question
+   */
+  async confirm(question: string, defaultValue: boolean): Promise<boolean> {
+    const answer = (await this.ask(`${question} [${defaultValue ? 'Y/n' : 'y/N'}]`)).toLowerCase();
+    return answer ? answer.startsWith('y') : defaultValue;
+  }
+
+  /**
+   * Pick one option by number or value
+   */
+  async choose(question: string, options: string[], defaultIndex: number = 0): Promise<string> {
+    console.log(question);
+    options.forEach((option, index) => console.log(`  ${index + 1}) ${option}`));
+
+    for (;;) {
+      const answer = await this.ask('Choose', String(defaultIndex + 1));
+      const index = parseInt(answer, 10) - 1;
+      if (String(index + 1) === answer && index >= 0 && index < options.length) {
+        return options[index];
+      }
+      if (options.indexOf(answer) >= 0) {
+        return answer;
+      }
+      if (this.closed) {
+        return options[defaultIndex];
+      }
+      console.log(`⚠️  Enter a number between 1 and ${options.length}`);
+    }
+  }
+
+  /**
+   * Input has ended and every buffered line was consumed
+   */
+  get exhausted(): boolean {
+    return this.closed && this.lines.length === 0;
+  }
+
+  close(): void {
+    this.rl.close();
+  }
+
+  private nextLine(): Promise<string> {
+    if (this.lines.length > 0) {
+      return Promise.resolve(this.lines.shift()!);
+    }
+    if (this.closed) {
+      return Promise.resolve('');
+    }
+    return new Promise(resolve => {
+      this.waiting = resolve;
+    });
+  }
+}
+
+/**
+ * Find exported React components (capitalized functions/arrows) under a directory
+ */
+export function discoverComponents(projectRoot: string, directory: string = 'src/components'): DiscoveredComponent[] {
+  const root = join(projectRoot, directory);
+  const components: DiscoveredComponent[] = [];
+
+  const visit = (dir: string) => {
+    readdirSync(dir).sort().forEach(entry => {
+      const path = join(dir, entry);
+      if (statSync(path).isDirectory()) {
+        visit(path);
+        return;
+      }
+      if (!/\.(tsx|jsx)$/.test(entry)) return;
+
+      const file = relative(projectRoot, path).split('\\').join('/');
+      const sourceFile = ts.createSourceFile(file, readFileSync(path, 'utf-8'), ts.ScriptTarget.Latest, true);
+      const isComponentName = (name: string) => /^[A-Z]/.test(name);
+      const isExported = (node: ts.Node) =>
+        !!ts.getModifiers(node as ts.HasModifiers)?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+
+      sourceFile.statements.forEach(statement => {
+        if (ts.isFunctionDeclaration(statement) && statement.name && isExported(statement) && isComponentName(statement.name.text)) {
+          components.push({ file, name: statement.name.text });
+        }
+        if (ts.isVariableStatement(statement) && isExported(statement)) {
+          statement.declarationList.declarations.forEach(declaration => {
+            if (ts.isIdentifier(declaration.name) && isComponentName(declaration.name.text) && declaration.initializer &&
+              (ts.isArrowFunction(declaration.initializer) || ts.isFunctionExpression(declaration.initializer) ||
+                ts.isCallExpression(declaration.initializer))) {
+              components.push({ file, name: declaration.name.text });
+            }
+          });
+        }
+      });
+    });
+  };
+
+  if (existsSync(root)) {
+    visit(root);
+  }
+  return components;
+}
+
+/**
+ * Parse a parameter value typed at the prompt (JSON literal, else plain string)
+ */
+function parseValue(input: string): unknown {
+  try {
+    return JSON.parse(input);
+  } catch {
+    return input;
+  }
+}
+
+/**
+ * Prompt text for a parameter value that parseValue reads back unchanged
+ */
+function formatValue(value: unknown): string {
+  return typeof value === 'string' && parseValue(value) === value ? value : JSON.stringify(value);
+}
+
+function splitList(input: string): string[] {
+  return input.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Interactive wizard producing a validated contract
+ */
+export class ContractWizard {
+  private projectRoot: string;
+
+  constructor(projectRoot: string) {
+    this.projectRoot = projectRoot;
+  }
+
+  /**
+   * Run the wizard and write contract/<key>.json; returns the file path
+   */
+  async run(experimentKey: string): Promise<string> {
+    const file = join(CONTRACT_DIR, `${experimentKey}.json`);
+    const prompter = new Prompter();
+
+    try {
+      console.log(`🧙 Creating contract for experiment: ${experimentKey}\n`);
+
+      const existing = findContractFile(this.projectRoot, experimentKey);
+      if (existing && existing !== file) {
+        throw new Error(`Contract already exists: ${existing} (remove it to create ${file})`);
+      }
+      if (existing && !(await prompter.confirm(`⚠️  ${file} already exists. Overwrite?`, false))) {
+        throw new Error(`Contract already exists: ${file}`);
+      }
+
+      for (;;) {
+        const contract = await this.promptContract(prompter, experimentKey);
+
+        try {
+          const validated = validateContract(contract);
+          writeFileSync(join(this.projectRoot, file), `${JSON.stringify(contract, null, 2)}\n`);
+          console.log(`\n✅ Wrote ${file} (${Object.keys(validated.variants).length} variants, ${validated.codeChanges.length} code change)`);
+          return file;
+        } catch (error) {
+          console.error(`\n❌ ${error instanceof Error ? error.message : error}`);
+          if (prompter.exhausted || !(await prompter.confirm('Start over?', false))) {
+            throw new Error('Contract was not written');
+          }
+        }
+      }
+    } finally {
+      prompter.close();
+    }
+  }
+
+  /**
+   * Collect every section of the contract
+   */
+  private async promptContract(prompter: Prompter, experimentKey: string): Promise<ExperimentContract> {
+    const contract = createDefaultContract(experimentKey) as ExperimentContract;
+
+    contract.name = await prompter.ask('Experiment name', `Experiment: ${experimentKey}`);
+    contract.description = await prompter.ask('Description', contract.description);
+    contract.hypothesis = await prompter.ask('Hypothesis', contract.hypothesis);
+
+    contract.variants = await this.promptVariants(prompter);
+    const parameters = Object.keys(contract.variants[Object.keys(contract.variants)[0]].parameters);
+
+    contract.codeChanges = [await this.promptCodeChange(prompter, parameters)];
+    contract.primaryMetrics = await this.promptMetrics(prompter);
+    contract.targetingRules = await this.promptTargeting(prompter, contract.targetingRules);
+
+    contract.statsig.environment = await prompter.choose(
+      '\nStatsig environment:',
+      ['development', 'staging', 'production']
+    ) as ExperimentContract['statsig']['environment'];
+    contract.statsig.autoStart = await prompter.confirm('Start the experiment automatically after creation?', false);
+
+    return contract;
+  }
+
+  private async promptVariants(prompter: Prompter): Promise<Record<string, Variant>> {
+    console.log('\n🧪 Variants');
+    const names = splitList(await prompter.ask('Variant names, comma separated (first is control)', 'control, treatment'));
+    const parameterNames = splitList(await prompter.ask('Parameter names, comma separated (e.g. showBadge, badgeText)'));
+    const evenSplit = Math.floor(100 / names.length);
+    const variants: Record<string, Variant> = {};
+
+    for (let index = 0; index < names.length; index++) {
+      const key = names[index];
+      const defaultPercentage = index === names.length - 1 ? 100 - evenSplit * (names.length - 1) : evenSplit;
+      const variant: Variant = {
+        name: await prompter.ask(`  [${key}] display name`, key.charAt(0).toUpperCase() + key.slice(1)),
+        description: await prompter.ask(`  [${key}] description`, index === 0 ? 'Baseline experience' : 'New experience'),
+        parameters: {},
+        passPercentage: parseFloat(await prompter.ask(`  [${key}] traffic %`, String(defaultPercentage))),
+      };
+
+      // Control sets each parameter's type; later variants default to its value
+      for (const parameter of parameterNames) {
+        const question = `  [${key}] ${parameter} (JSON or text)`;
+        const control = index > 0 ? variants[names[0]].parameters[parameter] : undefined;
+        variant.parameters[parameter] = parseValue(control === undefined
+          ? await prompter.askRequired(question)
+          : await prompter.ask(question, formatValue(control)));
+      }
+      variants[key] = variant;
+    }
+
+    return variants;
+  }
+
+  private async promptCodeChange(prompter: Prompter, parameters: string[]): Promise<ExperimentContract['codeChanges'][number]> {
+    console.log('\n💻 Code change');
+    const components = discoverComponents(this.projectRoot);
+    let file: string;
+    let component: string;
+
+    if (components.length > 0) {
+      const labels = components.map(candidate => `${candidate.name} (${candidate.file})`);
+      const choice = await prompter.choose('Target component:', [...labels, 'Other…']);
+      const picked = components[labels.indexOf(choice)];
+      file = picked ? picked.file : await prompter.ask('File path');
+      component = picked ? picked.name : await prompter.ask('Function/component name');
+    } else {
+      file = await prompter.ask('File path');
+      component = await prompter.ask('Function/component name');
+    }
+
+    const parameterUsage = parameters.length > 0
+      ? await prompter.choose('Parameter the component should read:', parameters)
+      : await prompter.ask('Parameter the component should read');
+    const insertionPoint = await prompter.choose('Insert experiment code:', ['before', 'after', 'replace']);
+
+    return {
+      file,
+      function: component,
+      wrapWith: 'getExperiment',
+      parameterUsage,
+      insertionPoint: insertionPoint as 'before' | 'after' | 'replace',
+    };
+  }
+
+  private async promptMetrics(prompter: Prompter): Promise<PrimaryMetric[]> {
+    console.log('\n📊 Metrics');
+    const names = splitList(await prompter.ask('Primary metric names, comma separated', 'click_through_rate'));
+    const metrics: PrimaryMetric[] = [];
+
+    for (const name of names) {
+      const type = await prompter.choose(`[${name}] type:`, ['count', 'ratio', 'revenue', 'duration']);
+      const direction = await prompter.choose(`[${name}] desired direction:`, ['increase', 'decrease']);
+      const expected = await prompter.ask(`[${name}] hypothesized change in % (optional)`);
+      metrics.push({
+        name,
+        type: type as PrimaryMetric['type'],
+        direction: direction as PrimaryMetric['direction'],
+        ...(expected ? { hypothesizedValue: parseFloat(expected) } : {}),
+      });
+    }
+
+    return metrics;
+  }
+
+  private async promptTargeting(prompter: Prompter, defaults: TargetingRule[]): Promise<TargetingRule[]> {
+    console.log('\n🎯 Targeting');
+    if (!(await prompter.confirm('Target users on the experiment branch only?', true))) {
+      return [];
+    }
+
+    const environments = splitList(await prompter.ask('Environments, comma separated', 'development'));
+    return defaults.map(rule => ({ ...rule, environments }));
+  }
+}
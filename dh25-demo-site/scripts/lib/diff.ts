@@ -0,0 +1,126 @@
+/**
+ * Unified Diff Rendering
+ * Line-based diffs for previewing generated code changes
+ */
+
+/**
+ * Single line of a line-level diff
+ */
+interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+  oldLine: number;
+  newLine: number;
+}
+
+const ANSI = {
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  cyan: '\x1b[36m',
+};
+
+/**
+ * Line diff via longest common subsequence
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  const rows = oldLines.length + 1;
+  const cols = newLines.length + 1;
+  const lcs = new Uint32Array(rows * cols);
+
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = oldLines[i] === newLines[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      lines.push({ type: 'context', text: oldLines[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (i < oldLines.length && (j === newLines.length || lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1])) {
+      lines.push({ type: 'remove', text: oldLines[i], oldLine: i + 1, newLine: j });
+      i++;
+    } else {
+      lines.push({ type: 'add', text: newLines[j], oldLine: i, newLine: j + 1 });
+      j++;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Unified diff of two versions of a file (empty string when identical)
+ */
+export function createUnifiedDiff(file: string, original: string, modified: string, context: number = 3): string {
+  if (original === modified) {
+    return '';
+  }
+
+  const lines = diffLines(original.split('\n'), modified.split('\n'));
+  const output = [`--- a/${file}`, `+++ b/${file}`];
+  let index = 0;
+
+  while (index < lines.length) {
+    // Find the next change and grow a hunk around it
+    while (index < lines.length && lines[index].type === 'context') index++;
+    if (index >= lines.length) break;
+
+    const start = Math.max(0, index - context);
+    let end = index;
+    let lastChange = index;
+    while (end < lines.length && end - lastChange <= context * 2) {
+      if (lines[end].type !== 'context') lastChange = end;
+      end++;
+    }
+    end = Math.min(lines.length, lastChange + context + 1);
+
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter(line => line.type !== 'add').length;
+    const newCount = hunk.filter(line => line.type !== 'remove').length;
+    const oldStart = oldCount > 0 ? hunk.find(line => line.type !== 'add')!.oldLine : hunk[0].oldLine;
+    const newStart = newCount > 0 ? hunk.find(line => line.type !== 'remove')!.newLine : hunk[0].newLine;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    hunk.forEach(line => {
+      const prefix = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+      output.push(`${prefix}${line.text}`);
+    });
+
+    index = end;
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Whether to emit ANSI colors (TTY and NO_COLOR unset)
+ */
+export function shouldColorize(): boolean {
+  return !!process.stdout.isTTY && !process.env.NO_COLOR;
+}
+
+/**
+ * Color a unified diff for terminal output
+ */
+export function colorizeDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('+++') || line.startsWith('---')) return `${ANSI.bold}${line}${ANSI.reset}`;
+      if (line.startsWith('@@')) return `${ANSI.cyan}${line}${ANSI.reset}`;
+      if (line.startsWith('+')) return `${ANSI.green}${line}${ANSI.reset}`;
+      if (line.startsWith('-')) return `${ANSI.red}${line}${ANSI.reset}`;
+      return line;
+    })
+    .join('\n');
+}
@@ -0,0 +1,170 @@
+/**
+ * Experiment Inventory
+ * Merges contracts, exp/* branches, Statsig experiments and run journals into one listing
+ */
+
+import { execSync } from 'child_process';
+import { listContractFiles, loadContractFile } from './contract-loader.js';
+import { contractKeyFromFile } from './contract-formats.js';
+import { RunJournal } from './run-journal.js';
+import { loadShipDecision } from './ship-decision.js';
+import { initialAllocation } from './rollout.js';
+
+/**
+ * Mismatch between the contract and Statsig
+ */
+export type ExperimentDrift = 'missing_in_statsig' | 'missing_contract';
+
+/**
+ * One experiment as seen across contracts, git and Statsig
+ */
+export interface ExperimentListing {
+  key: string;
+  /** Statsig status; `draft` when only the contract exists, `unknown` when Statsig was unreachable */
+  status: string;
+  contractFile?: string;
+  /** Why the contract failed to load */
+  contractError?: string;
+  branch?: string;
+  lastCommit?: string;
+  lastCommitDate?: string;
+  previewUrl?: string;
+  /** Statsig allocation, else the contract's initial allocation */
+  allocation?: number;
+  tags: string[];
+  /** Variant shipped by `experiment ship` */
+  shipped?: string;
+  drift: ExperimentDrift[];
+}
+
+/**
+ * Latest commit of every exp/* branch, local branches winning over origin
+ */
+function experimentBranches(projectRoot: string): Record<string, { branch: string; commit: string; date: string }> {
+  const branches: Record<string, { branch: string; commit: string; date: string }> = {};
+
+  try {
+    execSync(
+      'git for-each-ref --format="%(refname)|%(objectname:short) %(contents:subject)|%(committerdate:short)" refs/remotes/origin/exp refs/heads/exp',
+      { cwd: projectRoot, encoding: 'utf8', stdio: 'pipe' }
+    )
+      .split('\n')
+      .filter(line => line.trim())
+      .forEach(line => {
+        const [ref, commit, date] = line.split('|');
+        const branch = ref.replace(/^refs\/(heads|remotes\/origin)\//, '');
+        branches[branch.slice('exp/'.length)] = { branch, commit, date };
+      });
+  } catch {
+    // Not a git repository; branch columns stay empty
+  }
+
+  return branches;
+}
+
+/**
+ * Collect every experiment known locally or to Statsig. `statsigExperiments`
+ * is undefined when Statsig could not be reached, which disables drift checks.
+ */
+export function collectExperiments(
+  projectRoot: string,
+  statsigExperiments: Array<Record<string, any>> | undefined
+): ExperimentListing[] {
+  const listings: Record<string, ExperimentListing> = {};
+  const defaultStatus = statsigExperiments ? 'draft' : 'unknown';
+  const listing = (key: string): ExperimentListing =>
+    listings[key] || (listings[key] = { key, status: defaultStatus, tags: [], drift: [] });
+
+  listContractFiles(projectRoot).forEach(file => {
+    try {
+      const { contract } = loadContractFile(projectRoot, file);
+      const entry = listing(contract.experimentKey);
+      entry.contractFile = file;
+      entry.allocation = initialAllocation(contract);
+      entry.tags = [...contract.metadata.tags];
+    } catch (error) {
+      const entry = listing(contractKeyFromFile(file));
+      entry.contractFile = file;
+      entry.contractError = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    }
+  });
+
+  (statsigExperiments || []).forEach(experiment => {
+    const key = experiment.id || experiment.name;
+    if (typeof key !== 'string') return;
+
+    const entry = listing(key);
+    entry.status = experiment.status || 'unknown';
+    if (typeof experiment.allocation === 'number') entry.allocation = experiment.allocation;
+    (Array.isArray(experiment.tags) ? experiment.tags : []).forEach((tag: string) => {
+      if (entry.tags.indexOf(tag) === -1) entry.tags.push(tag);
+    });
+  });
+
+  const branches = experimentBranches(projectRoot);
+  Object.keys(branches).forEach(key => {
+    const entry = listing(key);
+    entry.branch = branches[key].branch;
+    entry.lastCommit = branches[key].commit;
+    entry.lastCommitDate = branches[key].date;
+  });
+
+  return Object.keys(listings).sort().map(key => {
+    const entry = listings[key];
+    entry.previewUrl = RunJournal.load(projectRoot, key)?.getOutput('deploy').previewUrl;
+    entry.shipped = loadShipDecision(projectRoot, key)?.variant;
+
+    if (statsigExperiments) {
+      const inStatsig = statsigExperiments.some(experiment => (experiment.id || experiment.name) === key);
+      if (entry.contractFile && !inStatsig) entry.drift.push('missing_in_statsig');
+      if (!entry.contractFile && inStatsig) entry.drift.push('missing_contract');
+    }
+    return entry;
+  });
+}
+
+/**
+ * Keep experiments matching a status and/or tag
+ */
+export function filterExperiments(
+  listings: ExperimentListing[],
+  filters: { status?: string; tag?: string }
+): ExperimentListing[] {
+  return listings.filter(entry =>
+    (!filters.status || entry.status === filters.status) &&
+    (!filters.tag || entry.tags.indexOf(filters.tag) !== -1)
+  );
+}
+
+const COLUMNS = ['Key', 'Status', 'Branch', 'Last commit', 'Preview URL', 'Allocation', 'Drift'];
+
+function row(entry: ExperimentListing): string[] {
+  return [
+    entry.key,
+    entry.shipped ? `${entry.status} (shipped ${entry.shipped})` : entry.status,
+    entry.branch || '',
+    entry.lastCommit ? `${entry.lastCommit} (${entry.lastCommitDate})` : '',
+    entry.previewUrl || '',
+    entry.allocation !== undefined ? `${entry.allocation}%` : '',
+    [...entry.drift, ...(entry.contractError ? ['invalid_contract'] : [])].join(', '),
+  ];
+}
+
+/**
+ * Aligned plain-text table for the console
+ */
+export function formatExperimentTable(listings: ExperimentListing[]): string {
+  const rows = [COLUMNS, ...listings.map(row)];
+  const widths = COLUMNS.map((_, column) => Math.max(...rows.map(cells => cells[column].length)));
+  const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+  return [line(COLUMNS), widths.map(width => '-'.repeat(width)).join('  '), ...rows.slice(1).map(line)].join('\n');
+}
+
+/**
+ * RFC 4180 CSV with a header row
+ */
+export function formatExperimentCsv(listings: ExperimentListing[]): string {
+  const escape = (cell: string) => (/[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+  return [COLUMNS, ...listings.map(row)].map(cells => cells.map(escape).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,296 @@
+/**
+ * Experiment Results Reporting
+ * Turns Statsig pulse results into per-metric lift, confidence intervals and p-values
+ */
+
+import type { ExperimentContract, PrimaryMetric } from './contract-schema.js';
+import {
+  bonferroniConfidenceLevel,
+  compareGroups,
+  type ComparisonMethod,
+  type GroupComparison,
+  type GroupSummary,
+} from './statistics.js';
+
+export type MetricVerdict = 'improved' | 'regressed' | 'inconclusive' | 'no_data';
+
+export type HypothesisOutcome = 'supported' | 'not_supported' | 'inconclusive';
+
+/**
+ * Result of one metric for one treatment variant against control
+ */
+export interface MetricResult {
+  metric: string;
+  role: 'primary' | 'secondary';
+  type: PrimaryMetric['type'];
+  direction: PrimaryMetric['direction'];
+  variant: string;
+  hypothesizedValue?: number;
+  control?: GroupSummary;
+  test?: GroupSummary;
+  comparison?: GroupComparison;
+  /** p-value after Bonferroni correction (equals pValue when disabled) */
+  adjustedPValue?: number;
+  significant: boolean;
+  verdict: MetricVerdict;
+  /** Outcome against hypothesizedValue, when the contract sets one */
+  hypothesis?: HypothesisOutcome;
+}
+
+/**
+ * Full results report for an experiment
+ */
+export interface ExperimentResultsReport {
+  experimentKey: string;
+  controlVariant: string;
+  confidenceLevel: number;
+  bonferroni: boolean;
+  comparisons: number;
+  method: ComparisonMethod;
+  /** Confidence level used for intervals (after Bonferroni, if enabled) */
+  effectiveConfidenceLevel: number;
+  metrics: MetricResult[];
+}
+
+/**
+ * Options for building a report
+ */
+export interface ResultsOptions {
+  /** Override the contract's statsig.bonferroniCorrection */
+  bonferroni?: boolean;
+  /** z-test for Statsig pulse summaries (default), Welch's t-test for local event logs */
+  method?: ComparisonMethod;
+}
+
+/**
+ * Control variant key (named `control`, else the first declared variant)
+ */
+export function controlVariantKey(contract: ExperimentContract): string {
+  return 'control' in contract.variants ? 'control' : Object.keys(contract.variants)[0];
+}
+
+/**
+ * Variant keys compared against control (holdouts are not treatments and
+ * disabled variants receive no traffic)
+ */
+export function treatmentVariantKeys(contract: ExperimentContract): string[] {
+  const controlKey = controlVariantKey(contract);
+  return Object.keys(contract.variants)
+    .filter(key => key !== controlKey && !contract.variants[key].holdout && !contract.variants[key].disabled);
+}
+
+/**
+ * Group summary from a pulse result group ({ units|count|n, mean, variance|stddev })
+ */
+function parseGroup(raw: any): GroupSummary | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+
+  const units = Number(raw.units ?? raw.count ?? raw.n);
+  const mean = Number(raw.mean);
+  const stddev = raw.stddev ?? raw.standardDeviation;
+  const variance = Number(raw.variance ?? (stddev !== undefined ? Number(stddev) ** 2 : NaN));
+
+  return [units, mean, variance].every(value => isFinite(value)) && units > 0
+    ? { units, mean, variance }
+    : undefined;
+}
+
+/**
+ * Per-metric control/test summaries from a pulse results payload
+ */
+export function parsePulseResults(data: any): Record<string, { control?: GroupSummary; test?: GroupSummary }> {
+  const entries: any[] = Array.isArray(data) ? data : (data?.metrics || []);
+  const metrics: Record<string, { control?: GroupSummary; test?: GroupSummary }> = {};
+
+  entries.forEach(entry => {
+    const name = entry?.metric ?? entry?.name ?? entry?.metric_name;
+    if (typeof name === 'string') {
+      metrics[name] = { control: parseGroup(entry.control), test: parseGroup(entry.test) };
+    }
+  });
+
+  return metrics;
+}
+
+/**
+ * Compare the observed lift with the hypothesized change (percent, in the desired direction)
+ */
+function evaluateHypothesis(metric: PrimaryMetric, comparison: GroupComparison): HypothesisOutcome {
+  // Work in the desired direction so "higher is better" for both directions
+  const sign = metric.direction === 'decrease' ? -1 : 1;
+  const target = Math.abs(metric.hypothesizedValue || 0) / 100;
+  const lift = sign * comparison.relativeLift;
+  const lower = sign > 0 ? comparison.ciLower : -comparison.ciUpper;
+  const upper = sign > 0 ? comparison.ciUpper : -comparison.ciLower;
+
+  if (lower > 0 && lift >= target) return 'supported';
+  if (upper < target) return 'not_supported';
+  return 'inconclusive';
+}
+
+/**
+ * Build the report from pulse results keyed by treatment variant key
+ */
+export function analyzeExperimentResults(
+  contract: ExperimentContract,
+  pulses: Record<string, unknown>,
+  options: ResultsOptions = {}
+): ExperimentResultsReport {
+  const controlKey = controlVariantKey(contract);
+  const treatments = treatmentVariantKeys(contract);
+  const metrics = [
+    ...contract.primaryMetrics.map(metric => ({ metric, role: 'primary' as const })),
+    ...contract.secondaryMetrics.map(metric => ({ metric, role: 'secondary' as const })),
+  ];
+
+  const confidenceLevel = contract.statsig.confidenceInterval;
+  const bonferroni = options.bonferroni ?? contract.statsig.bonferroniCorrection;
+  const comparisons = Math.max(1, metrics.length * treatments.length);
+  const effectiveConfidenceLevel = bonferroni ? bonferroniConfidenceLevel(confidenceLevel, comparisons) : confidenceLevel;
+  const alpha = 1 - confidenceLevel / 100;
+  const method = options.method || 'z';
+
+  const results: MetricResult[] = [];
+  treatments.forEach(variant => {
+    const pulse = parsePulseResults(pulses[variant]);
+
+    metrics.forEach(({ metric, role }) => {
+      const base: MetricResult = {
+        metric: metric.name,
+        role,
+        type: metric.type,
+        direction: metric.direction,
+        variant,
+        hypothesizedValue: metric.hypothesizedValue,
+        significant: false,
+        verdict: 'no_data',
+      };
+      const groups = pulse[metric.name];
+
+      if (!groups?.control || !groups.test) {
+        results.push(base);
+        return;
+      }
+
+      const comparison = compareGroups(groups.control, groups.test, effectiveConfidenceLevel, method);
+      const adjustedPValue = bonferroni ? Math.min(1, comparison.pValue * comparisons) : comparison.pValue;
+      const significant = adjustedPValue < alpha;
+      const desired = metric.direction === 'decrease' ? comparison.absoluteDelta < 0 : comparison.absoluteDelta > 0;
+
+      results.push({
+        ...base,
+        control: groups.control,
+        test: groups.test,
+        comparison,
+        adjustedPValue,
+        significant,
+        verdict: !significant ? 'inconclusive' : desired ? 'improved' : 'regressed',
+        hypothesis: metric.hypothesizedValue !== undefined ? evaluateHypothesis(metric, comparison) : undefined,
+      });
+    });
+  });
+
+  return {
+    experimentKey: contract.experimentKey,
+    controlVariant: controlKey,
+    confidenceLevel,
+    bonferroni,
+    comparisons,
+    method,
+    effectiveConfidenceLevel,
+    metrics: results,
+  };
+}
+
+const VERDICT_LABELS: Record<MetricVerdict, string> = {
+  improved: '✅ improved',
+  regressed: '❌ regressed',
+  inconclusive: '➖ inconclusive',
+  no_data: '⚠️  no data',
+};
+
+function formatNumber(value: number): string {
+  return Math.abs(value) >= 100 ? value.toFixed(1) : value.toPrecision(4);
+}
+
+function formatLevel(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function formatPercent(value: number): string {
+  return isFinite(value) ? `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%` : 'n/a';
+}
+
+function formatPValue(value: number): string {
+  return value < 0.0001 ? '<0.0001' : value.toFixed(4);
+}
+
+/**
+ * Table rows shared by the console and Markdown renderers
+ */
+function reportRows(report: ExperimentResultsReport): string[][] {
+  const header = ['Metric', 'Variant', 'Control', 'Test', 'Lift', `${formatLevel(report.effectiveConfidenceLevel)}% CI`, 'p-value', 'Result', 'Hypothesis'];
+
+  return [header, ...report.metrics.map(result => {
+    const { comparison } = result;
+    const hypothesis = result.hypothesizedValue === undefined
+      ? '-'
+      : `${result.hypothesis || 'no data'} (${result.direction === 'decrease' ? '-' : '+'}${Math.abs(result.hypothesizedValue)}%)`;
+
+    return [
+      `${result.metric}${result.role === 'secondary' ? ' (secondary)' : ''}`,
+      result.variant,
+      result.control ? formatNumber(result.control.mean) : '-',
+      result.test ? formatNumber(result.test.mean) : '-',
+      comparison ? formatPercent(comparison.relativeLift) : '-',
+      comparison ? `[${formatPercent(comparison.ciLower)}, ${formatPercent(comparison.ciUpper)}]` : '-',
+      result.adjustedPValue !== undefined ? formatPValue(result.adjustedPValue) : '-',
+      VERDICT_LABELS[result.verdict],
+      hypothesis,
+    ];
+  })];
+}
+
+function describeCorrection(report: ExperimentResultsReport): string {
+  const test = report.method === 'welch' ? "Welch's t-test" : 'z-test';
+  return `${test}; ` + (report.bonferroni
+    ? `Bonferroni correction over ${report.comparisons} comparison(s) (${report.confidenceLevel}% → ${formatLevel(report.effectiveConfidenceLevel)}% intervals)`
+    : `no multiple-comparison correction (${report.confidenceLevel}% intervals)`);
+}
+
+/**
+ * Aligned plain-text table for the console
+ */
+export function formatResultsTable(report: ExperimentResultsReport): string {
+  const rows = reportRows(report);
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  const line = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+  return [
+    `📊 Results for ${report.experimentKey} (control: ${report.controlVariant})`,
+    describeCorrection(report),
+    '',
+    line(rows[0]),
+    widths.map(width => '-'.repeat(width)).join('  '),
+    ...rows.slice(1).map(line),
+  ].join('\n');
+}
+
+/**
+ * Markdown report (e.g. for a PR comment)
+ */
+export function formatResultsMarkdown(report: ExperimentResultsReport): string {
+  const rows = reportRows(report);
+  const line = (row: string[]) => `| ${row.join(' | ')} |`;
+
+  return [
+    `## Results: \`${report.experimentKey}\``,
+    '',
+    `Control: \`${report.controlVariant}\`. ${describeCorrection(report)}.`,
+    '',
+    line(rows[0]),
+    line(rows[0].map(() => '---')),
+    ...rows.slice(1).map(line),
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,230 @@
+/**
+ * Typed Experiment Module Generator
+ * Emits src/lib/experiments.generated.ts from the experiment contracts
+ */
+
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import type { ExperimentContract } from './contract-schema.js';
+import { loadAllContracts } from './contract-loader.js';
+
+/**
+ * Output location (relative to the project root)
+ */
+export const GENERATED_EXPERIMENTS_PATH = 'src/lib/experiments.generated.ts';
+
+/**
+ * Parameter shape derived from all variants of one experiment
+ */
+interface ParameterField {
+  name: string;
+  types: string[];
+  defaultValue: unknown;
+  optional: boolean;
+}
+
+/**
+ * PascalCase an experiment key (prime_banner → PrimeBanner)
+ */
+function pascalCase(value: string): string {
+  return value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * Quote a property name only when it is not a valid identifier
+ */
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : `'${name.replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * TypeScript type for a JSON value
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) {
+    const elementTypes = unique(value.map(typeOf));
+    if (elementTypes.length === 0) return 'unknown[]';
+    return elementTypes.length === 1 ? `${elementTypes[0]}[]` : `Array<${elementTypes.join(' | ')}>`;
+  }
+  if (typeof value === 'object') {
+    const fields = Object.keys(value as object).map(key =>
+      `${propertyName(key)}: ${typeOf((value as Record<string, unknown>)[key])}`
+    );
+    return fields.length > 0 ? `{ ${fields.join('; ')} }` : 'Record<string, unknown>';
+  }
+  if (typeof value === 'boolean' || typeof value === 'number' || typeof value === 'string') {
+    return typeof value;
+  }
+  return 'unknown';
+}
+
+/**
+ * Source literal for a JSON value (single-quoted strings)
+ */
+function literal(value: unknown): string {
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(literal).join(', ')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value).map(key => `${propertyName(key)}: ${literal((value as Record<string, unknown>)[key])}`);
+    return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}';
+  }
+  return JSON.stringify(value);
+}
+
+function unique(values: string[]): string[] {
+  return values.filter((value, index) => values.indexOf(value) === index);
+}
+
+/**
+ * Control variant (named `control`, else the first declared variant)
+ */
+function controlVariant(contract: ExperimentContract) {
+  return contract.variants.control || contract.variants[Object.keys(contract.variants)[0]];
+}
+
+/**
+ * Collect parameter names, types and control defaults across variants
+ */
+function parameterFields(contract: ExperimentContract): ParameterField[] {
+  const variants = Object.keys(contract.variants).map(name => contract.variants[name]);
+  const control = controlVariant(contract);
+  const names: string[] = [];
+
+  variants.forEach(variant => {
+    Object.keys(variant.parameters).forEach(name => {
+      if (names.indexOf(name) === -1) names.push(name);
+    });
+  });
+
+  return names.map(name => {
+    const values = variants
+      .filter(variant => name in variant.parameters)
+      .map(variant => variant.parameters[name]);
+    const hasDefault = !!control && name in control.parameters;
+
+    return {
+      name,
+      types: unique(values.map(typeOf)),
+      defaultValue: hasDefault ? control.parameters[name] : undefined,
+      optional: !hasDefault,
+    };
+  });
+}
+
+/**
+ * Render the generated module for a set of contracts
+ */
+export function generateExperimentTypes(contracts: ExperimentContract[]): string {
+  const sorted = contracts.slice().sort((a, b) => a.experimentKey.localeCompare(b.experimentKey));
+  const keys = sorted.map(contract => contract.experimentKey);
+
+  const duplicate = keys.find((key, index) => keys.indexOf(key) !== index);
+  if (duplicate) {
+    throw new Error(`Duplicate experimentKey '${duplicate}' across contracts`);
+  }
+
+  const lines: string[] = [
+    '/**',
+    ' * Typed experiment parameters',
+    ' * Generated from the contract files in contract/ by `npm run experiment:types` — do not edit by hand',
+    ' */',
+    '',
+    "import { getExperiment } from './statsigClient';",
+    '',
+    '/**',
+    ' * Keys of all experiments with a contract',
+    ' */',
+    `export type ExperimentKey = ${keys.length > 0 ? keys.map(key => `'${key}'`).join(' | ') : 'never'};`,
+    '',
+  ];
+
+  sorted.forEach(contract => {
+    lines.push('/**', ` * Parameters for ${contract.experimentKey} (${contract.name})`, ' */');
+    lines.push(`export interface ${pascalCase(contract.experimentKey)}Params {`);
+    parameterFields(contract).forEach(field => {
+      lines.push(`  ${propertyName(field.name)}${field.optional ? '?' : ''}: ${field.types.join(' | ')};`);
+    });
+    lines.push('}', '');
+  });
+
+  lines.push(
+    '/**',
+    ' * Parameter interface for each experiment key',
+    ' */',
+    'export interface ExperimentParamsMap {',
+    ...sorted.map(contract => `  ${propertyName(contract.experimentKey)}: ${pascalCase(contract.experimentKey)}Params;`),
+    '}',
+    '',
+    '/**',
+    ' * Control variant values, used until Statsig returns a config',
+    ' */',
+    'export const EXPERIMENT_DEFAULTS: { [K in ExperimentKey]: ExperimentParamsMap[K] } = {',
+  );
+  sorted.forEach(contract => {
+    const defaults = parameterFields(contract)
+      .filter(field => !field.optional)
+      .map(field => `    ${propertyName(field.name)}: ${literal(field.defaultValue)},`);
+    lines.push(`  ${propertyName(contract.experimentKey)}: {`, ...defaults, '  },');
+  });
+  lines.push(
+    '};',
+    '',
+    '/**',
+    ' * Experiment result with typed parameters',
+    ' */',
+    'export interface TypedExperiment<K extends ExperimentKey> {',
+    '  key: K;',
+    '  variant: string;',
+    '  isExperimentGroup: boolean;',
+    '  params: ExperimentParamsMap[K];',
+    '}',
+    '',
+    '/**',
+    ' * Get an experiment with parameters typed from its contract.',
+    ' * Values whose type differs from the control default fall back to the default.',
+    ' */',
+    'export async function getTypedExperiment<K extends ExperimentKey>(experimentKey: K): Promise<TypedExperiment<K>> {',
+    '  const experiment = await getExperiment(experimentKey);',
+    '  const config: Record<string, unknown> = experiment.metadata?.config ?? {};',
+    '  const params: Record<string, unknown> = { ...(EXPERIMENT_DEFAULTS[experimentKey] as object) };',
+    '',
+    '  Object.keys(config).forEach(name => {',
+    '    if (!(name in params) || typeof config[name] === typeof params[name]) {',
+    '      params[name] = config[name];',
+    '    }',
+    '  });',
+    '',
+    '  return {',
+    '    key: experimentKey,',
+    '    variant: experiment.variant,',
+    '    isExperimentGroup: experiment.isExperimentGroup,',
+    '    params: params as unknown as ExperimentParamsMap[K],',
+    '  };',
+    '}',
+    '',
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Regenerate src/lib/experiments.generated.ts from every contract
+ */
+export function writeExperimentTypes(projectRoot: string): { path: string; experimentKeys: string[] } {
+  const contracts = loadAllContracts(projectRoot).map(({ contract }) => contract);
+  writeFileSync(join(projectRoot, GENERATED_EXPERIMENTS_PATH), generateExperimentTypes(contracts));
+
+  return {
+    path: GENERATED_EXPERIMENTS_PATH,
+    experimentKeys: contracts.map(contract => contract.experimentKey).sort(),
+  };
+}
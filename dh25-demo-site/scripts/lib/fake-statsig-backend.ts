@@ -0,0 +1,256 @@
+/**
+ * Fake Statsig Backend
+ * Deterministic, file-backed stand-in for Statsig so the workflow runs offline
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type { MCPResponse } from './mcp-client.js';
+import type {
+  StatsigBackend,
+  StatsigExperimentConfig,
+  StatsigGateConfig,
+  StatsigLayerConfig,
+} from './statsig-backend.js';
+
+/**
+ * Persisted fake state
+ */
+interface FakeState {
+  revision: number;
+  experiments: Record<string, Record<string, any>>;
+  layers?: Record<string, Record<string, any>>;
+  gates?: Record<string, Record<string, any>>;
+}
+
+/**
+ * Typical per-user mean for each metric type
+ */
+const BASELINE_MEANS: Record<string, number> = {
+  ratio: 0.08,
+  count: 1.6,
+  revenue: 42,
+  duration: 75,
+};
+
+/**
+ * Deterministic value in [0, 1) from a string seed (FNV-1a)
+ */
+function seededRandom(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash / 0x100000000;
+}
+
+/**
+ * Stable pulse-style group summary for a metric
+ */
+function fakeGroupSummary(seed: string, group: string, type: string, lift: number) {
+  const base = BASELINE_MEANS[type] ?? BASELINE_MEANS.count;
+  const mean = base * (0.9 + 0.2 * seededRandom(`${seed}:base`)) * (1 + lift);
+  const variance = type === 'ratio' ? mean * (1 - mean) : type === 'count' ? mean : (mean * 1.2) ** 2;
+  return { units: 4000 + Math.floor(seededRandom(`${seed}:${group}:units`) * 2000), mean, variance };
+}
+
+/**
+ * File-backed fake backend (state in .experiments/state.json)
+ */
+export class FakeStatsigBackend implements StatsigBackend {
+  readonly kind = 'fake' as const;
+  private statePath: string;
+
+  constructor(statePath: string = join(process.cwd(), '.experiments', 'state.json')) {
+    this.statePath = statePath;
+  }
+
+  /**
+   * Read state from disk (empty state if missing)
+   */
+  private readState(): FakeState {
+    if (!existsSync(this.statePath)) {
+      return { revision: 0, experiments: {} };
+    }
+    return JSON.parse(readFileSync(this.statePath, 'utf-8'));
+  }
+
+  /**
+   * Persist state, bumping the revision counter
+   */
+  private writeState(state: FakeState): void {
+    mkdirSync(dirname(this.statePath), { recursive: true });
+    state.revision += 1;
+    writeFileSync(this.statePath, `${JSON.stringify(state, null, 2)}\n`);
+  }
+
+  /**
+   * Apply a mutation to an existing experiment
+   */
+  private mutate(experimentId: string, update: (experiment: Record<string, any>) => Record<string, any>): MCPResponse {
+    const state = this.readState();
+    const experiment = state.experiments[experimentId];
+
+    if (!experiment) {
+      return { success: false, error: `Experiment not found: ${experimentId}` };
+    }
+
+    const updated = { ...update(experiment), id: experimentId, lastModifiedRevision: state.revision + 1 };
+    state.experiments[experimentId] = updated;
+    this.writeState(state);
+    return { success: true, data: updated };
+  }
+
+  async createExperiment(config: StatsigExperimentConfig): Promise<MCPResponse> {
+    const state = this.readState();
+
+    if (state.experiments[config.id]) {
+      return { success: false, error: `Experiment already exists: ${config.id}` };
+    }
+    if (config.layerID && !(state.layers || {})[config.layerID]) {
+      return { success: false, error: `Layer not found: ${config.layerID}` };
+    }
+
+    const experiment = { ...config, status: 'setup', createdRevision: state.revision + 1 };
+    state.experiments[config.id] = experiment;
+    this.writeState(state);
+    return { success: true, data: experiment };
+  }
+
+  async getExperimentDetails(experimentId: string): Promise<MCPResponse> {
+    const experiment = this.readState().experiments[experimentId];
+    return experiment
+      ? { success: true, data: experiment }
+      : { success: false, error: `Experiment not found: ${experimentId}` };
+  }
+
+  async updateExperiment(experimentId: string, config: any): Promise<MCPResponse> {
+    return this.mutate(experimentId, experiment => ({ ...experiment, ...config }));
+  }
+
+  async startExperiment(experimentId: string): Promise<MCPResponse> {
+    return this.mutate(experimentId, experiment => ({ ...experiment, status: 'active' }));
+  }
+
+  async stopExperiment(experimentId: string): Promise<MCPResponse> {
+    return this.mutate(experimentId, experiment => ({ ...experiment, status: 'experiment_stopped' }));
+  }
+
+  async archiveExperiment(experimentId: string): Promise<MCPResponse> {
+    return this.mutate(experimentId, experiment => ({ ...experiment, status: 'archived' }));
+  }
+
+  async makeDecision(experimentId: string, groupId: string, reason: string): Promise<MCPResponse> {
+    const experiment = this.readState().experiments[experimentId];
+    if (experiment && !(experiment.groups || []).some((group: { id?: string }) => group.id === groupId)) {
+      return { success: false, error: `Group not found in ${experimentId}: ${groupId}` };
+    }
+    return this.mutate(experimentId, current => ({
+      ...current,
+      status: 'decision_made',
+      decision: { groupID: groupId, reason },
+    }));
+  }
+
+  async listExperiments(): Promise<MCPResponse> {
+    const experiments = this.readState().experiments;
+    return {
+      success: true,
+      data: Object.keys(experiments).sort().map(id => experiments[id]),
+    };
+  }
+
+  async getExperimentResults(experimentId: string, controlGroup: string, testGroup: string): Promise<MCPResponse> {
+    const experiment = this.readState().experiments[experimentId];
+    if (!experiment) {
+      return { success: false, error: `Experiment not found: ${experimentId}` };
+    }
+
+    // Same experiment, metric and groups always produce the same numbers
+    const metrics = [
+      ...(experiment.primaryMetrics || []),
+      ...(experiment.secondaryMetrics || []),
+      ...(experiment.guardrailMetrics || []),
+    ]
+      .map((metric: { name: string; type: string }) => {
+        const seed = `${experimentId}:${metric.name}`;
+        const lift = -0.05 + 0.2 * seededRandom(`${seed}:${testGroup}:lift`);
+        return {
+          metric: metric.name,
+          type: metric.type,
+          control: fakeGroupSummary(seed, controlGroup, metric.type, 0),
+          test: fakeGroupSummary(seed, testGroup, metric.type, lift),
+        };
+      });
+
+    return { success: true, data: { control: controlGroup, test: testGroup, metrics } };
+  }
+
+  async getLayer(layerId: string): Promise<MCPResponse> {
+    const layer = (this.readState().layers || {})[layerId];
+    return layer
+      ? { success: true, data: layer }
+      : { success: false, error: `Layer not found: ${layerId}` };
+  }
+
+  async createLayer(config: StatsigLayerConfig): Promise<MCPResponse> {
+    const state = this.readState();
+    const layers = state.layers || {};
+
+    if (layers[config.id]) {
+      return { success: false, error: `Layer already exists: ${config.id}` };
+    }
+
+    const layer = { ...config, createdRevision: state.revision + 1 };
+    state.layers = { ...layers, [config.id]: layer };
+    this.writeState(state);
+    return { success: true, data: layer };
+  }
+
+  async getGate(gateId: string): Promise<MCPResponse> {
+    const gate = (this.readState().gates || {})[gateId];
+    return gate
+      ? { success: true, data: gate }
+      : { success: false, error: `Gate not found: ${gateId}` };
+  }
+
+  async createGate(config: StatsigGateConfig): Promise<MCPResponse> {
+    const state = this.readState();
+    const gates = state.gates || {};
+
+    if (gates[config.id]) {
+      return { success: false, error: `Gate already exists: ${config.id}` };
+    }
+
+    const gate = { ...config, createdRevision: state.revision + 1 };
+    state.gates = { ...gates, [config.id]: gate };
+    this.writeState(state);
+    return { success: true, data: gate };
+  }
+
+  async updateGate(gateId: string, config: StatsigGateConfig): Promise<MCPResponse> {
+    const state = this.readState();
+    const gates = state.gates || {};
+
+    if (!gates[gateId]) {
+      return { success: false, error: `Gate not found: ${gateId}` };
+    }
+
+    const gate = { ...gates[gateId], ...config, id: gateId, lastModifiedRevision: state.revision + 1 };
+    state.gates = { ...gates, [gateId]: gate };
+    this.writeState(state);
+    return { success: true, data: gate };
+  }
+
+  async close(): Promise<void> {
+    // State is flushed on every write
+  }
+}
+
+/**
+ * Create fake backend instance
+ */
+export function createFakeStatsigBackend(): FakeStatsigBackend {
+  return new FakeStatsigBackend(process.env.STATSIG_FAKE_STATE_PATH || undefined);
+}
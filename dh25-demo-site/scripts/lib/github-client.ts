@@ -211,6 +211,7 @@ export class GitHubClient {
    */
   async getPRStatus(prNumber: number): Promise<{
     state: string;
+    merged: boolean;
     mergeable: boolean;
     reviews: Array<{ state: string; user: { login: string } }>;
   } | null> {
@@ -240,6 +241,7 @@ export class GitHubClient {
 
       return {
         state: pr.state,
+        merged: pr.merged === true,
         mergeable: pr.mergeable,
         reviews: reviews.map((review: any) => ({
           state: review.state,
@@ -403,6 +405,11 @@ export function getGitHubClient(): GitHubClient {
     return {
       createExperimentPR: async () => ({ success: true, pr: { number: 1, html_url: 'https://github.com/mock/pr/1' } }),
       createPullRequest: async () => ({ success: true, pr: { number: 1, html_url: 'https://github.com/mock/pr/1' } }),
+      findExistingPR: async () => null,
+      addComment: async () => true,
+      getPRStatus: async () => null,
+      mergePR: async () => true,
+      deleteBranch: async () => true,
     } as any;
   }
 }
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateGuardrails, guardrailId } from './guardrails.js';
+import { msprtPValue } from './statistics.js';
+import { validateContract } from './contract-schema.js';
+
+const guardrailContract = validateContract({
+  schemaVersion: 2,
+  experimentKey: 'guardrail_test',
+  name: 'Guardrail test',
+  variants: {
+    control: { name: 'Control', parameters: { enabled: false }, passPercentage: 50 },
+    treatment: { name: 'Treatment', parameters: { enabled: true }, passPercentage: 50 },
+    retired: { name: 'Retired', parameters: { enabled: true }, passPercentage: 10, disabled: true },
+  },
+  codeChanges: [{ file: 'src/app/page.tsx', function: 'Page', parameterUsage: 'enabled' }],
+  guardrailMetrics: [{ name: 'add_to_cart_rate', type: 'ratio', threshold: 5 }],
+  branchConfig: { branchName: 'exp/guardrail_test' },
+  deployment: {},
+  statsig: {},
+});
+
+/**
+ * Pulse payload with one guardrail metric
+ */
+function pulse(testMean: number, units = 10000) {
+  return {
+    metrics: [{
+      metric: 'add_to_cart_rate',
+      control: { units, mean: 0.2, variance: 0.16 },
+      test: { units, mean: testMean, variance: 0.16 },
+    }],
+  };
+}
+
+test('msprtPValue matches the closed-form mixture likelihood ratio', () => {
+  const control = { units: 2, mean: 0, variance: 1 };
+
+  // V = τ² = 1, deviation 3: Λ = sqrt(1/2) · exp(9/4), p = 1/Λ
+  assert.ok(Math.abs(msprtPValue(control, { units: 2, mean: 3, variance: 1 }, 0, 1) - 0.149057) < 1e-6);
+  // No deviation never rejects
+  assert.equal(msprtPValue(control, { units: 2, mean: 0, variance: 1 }, 0, 1), 1);
+  // Deviation measured from the null delta, not from zero
+  assert.equal(msprtPValue(control, { units: 2, mean: 3, variance: 1 }, 3, 1), 1);
+  assert.equal(msprtPValue(control, control, 0, 0), 1);
+});
+
+test('evaluateGuardrails flags a regression beyond the threshold', () => {
+  // A 25% drop against a 5% tolerance
+  const evaluation = evaluateGuardrails(guardrailContract, { treatment: pulse(0.15) });
+
+  assert.equal(evaluation.alpha, 1 - 0.95);
+  assert.equal(evaluation.results.length, 1, 'disabled variants are not checked');
+  assert.equal(evaluation.breaches.length, 1);
+  assert.equal(evaluation.breaches[0].variant, 'treatment');
+  assert.ok(Math.abs(evaluation.breaches[0].relativeLift! + 0.25) < 1e-12);
+  assert.ok(evaluation.breaches[0].pValue! < 1e-6);
+});
+
+test('evaluateGuardrails keeps the running minimum without breaching on improvements', () => {
+  // Equal means are on the healthy side of the threshold, so the look is no evidence of a regression
+  const [first] = evaluateGuardrails(guardrailContract, { treatment: pulse(0.2) }).results;
+  assert.equal(first.pValue, 1);
+  assert.equal(first.breached, false);
+
+  const previous = { [guardrailId('add_to_cart_rate', 'treatment')]: 0.01 };
+  const [result] = evaluateGuardrails(guardrailContract, { treatment: pulse(0.2) }, previous).results;
+  assert.equal(result.pValue, 0.01);
+  assert.equal(result.breached, false);
+});
+
+test('evaluateGuardrails does not carry healthy-side evidence into a later noisy dip', () => {
+  // Look 1: no change on 200k users per group rejects "regression = 5%" from the healthy side
+  const [healthy] = evaluateGuardrails(guardrailContract, { treatment: pulse(0.2, 200000) }).results;
+  assert.equal(healthy.pValue, 1);
+  assert.equal(healthy.breached, false);
+
+  // Look 2: a -5.1% dip on 1k users is barely past the threshold and proves nothing on its own
+  const previous = { [guardrailId('add_to_cart_rate', 'treatment')]: healthy.pValue! };
+  const [dip] = evaluateGuardrails(guardrailContract, { treatment: pulse(0.2 * 0.949, 1000) }, previous).results;
+  assert.ok(dip.relativeLift! < -0.05);
+  assert.equal(dip.pValue, 1);
+  assert.equal(dip.breached, false);
+});
+
+test('evaluateGuardrails reports missing pulses without a p-value', () => {
+  const [result] = evaluateGuardrails(guardrailContract, {}).results;
+
+  assert.equal(result.relativeLift, undefined);
+  assert.equal(result.pValue, undefined);
+  assert.equal(result.breached, false);
+});
@@ -0,0 +1,216 @@
+/**
+ * Guardrail Monitoring
+ * Sequential (mSPRT) checks of guardrail metrics and the decision log of `experiment watch`
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type { ExperimentContract, GuardrailMetric } from './contract-schema.js';
+import { parsePulseResults, treatmentVariantKeys } from './experiment-results.js';
+import { msprtPValue, type GroupSummary } from './statistics.js';
+
+/**
+ * Spread of the mSPRT mixture over regressions, as a fraction of the control mean
+ */
+const MIXING_RELATIVE_SD = 0.05;
+
+/**
+ * One guardrail metric for one treatment variant at one look
+ */
+export interface GuardrailResult {
+  metric: string;
+  variant: string;
+  /** Tolerated regression, in percent */
+  threshold: number;
+  control?: GroupSummary;
+  test?: GroupSummary;
+  /** (test - control) / control, as a fraction */
+  relativeLift?: number;
+  /** Running minimum of the always-valid p-value across looks */
+  pValue?: number;
+  /** Regression beyond the threshold at the contract's confidence level */
+  breached: boolean;
+}
+
+/**
+ * Outcome of one look at every guardrail
+ */
+export interface GuardrailEvaluation {
+  alpha: number;
+  results: GuardrailResult[];
+  breaches: GuardrailResult[];
+}
+
+/**
+ * Key of a metric/variant pair in running p-value maps
+ */
+export function guardrailId(metric: string, variant: string): string {
+  return `${metric}:${variant}`;
+}
+
+/**
+ * Check one guardrail: H0 is a regression of exactly `threshold`, rejected
+ * towards "worse" when the always-valid p-value drops below alpha
+ */
+function checkGuardrail(
+  metric: GuardrailMetric,
+  variant: string,
+  groups: { control?: GroupSummary; test?: GroupSummary } | undefined,
+  previousPValue: number | undefined,
+  alpha: number
+): GuardrailResult {
+  const base: GuardrailResult = { metric: metric.name, variant, threshold: metric.threshold, pValue: previousPValue, breached: false };
+  if (!groups?.control || !groups.test || groups.control.mean === 0) {
+    return base;
+  }
+
+  // Work in the desired direction so a regression is always a negative delta
+  const sign = metric.direction === 'decrease' ? -1 : 1;
+  const scale = Math.abs(groups.control.mean);
+  const boundary = -(metric.threshold / 100) * scale;
+  const delta = sign * (groups.test.mean - groups.control.mean);
+  // The mixture is two-sided: only a look on the regression side may lower the
+  // running minimum, or rejecting from the healthy side would count later
+  const lookPValue = delta < boundary
+    ? msprtPValue(groups.control, groups.test, sign * boundary, (MIXING_RELATIVE_SD * scale) ** 2)
+    : 1;
+  const pValue = Math.min(previousPValue ?? 1, lookPValue);
+
+  return {
+    ...base,
+    control: groups.control,
+    test: groups.test,
+    relativeLift: (groups.test.mean - groups.control.mean) / groups.control.mean,
+    pValue,
+    breached: pValue < alpha && delta < boundary,
+  };
+}
+
+/**
+ * Evaluate every guardrail metric for every treatment variant
+ * (pulses keyed by variant key, as for analyzeExperimentResults)
+ */
+export function evaluateGuardrails(
+  contract: ExperimentContract,
+  pulses: Record<string, unknown>,
+  previousPValues: Record<string, number> = {}
+): GuardrailEvaluation {
+  const alpha = 1 - contract.statsig.confidenceInterval / 100;
+  const results: GuardrailResult[] = [];
+
+  treatmentVariantKeys(contract).forEach(variant => {
+    const pulse = parsePulseResults(pulses[variant]);
+    contract.guardrailMetrics.forEach(metric => {
+      results.push(checkGuardrail(metric, variant, pulse[metric.name], previousPValues[guardrailId(metric.name, variant)], alpha));
+    });
+  });
+
+  return { alpha, results, breaches: results.filter(result => result.breached) };
+}
+
+/**
+ * Console lines for one look
+ */
+export function formatGuardrailEvaluation(evaluation: GuardrailEvaluation): string[] {
+  return evaluation.results.map(result => {
+    const label = `${result.metric} (${result.variant})`;
+    if (result.relativeLift === undefined) {
+      return `⚠️  ${label}: no data`;
+    }
+    const lift = `${result.relativeLift >= 0 ? '+' : ''}${(result.relativeLift * 100).toFixed(2)}%`;
+    const pValue = result.pValue! < 0.0001 ? '<0.0001' : result.pValue!.toFixed(4);
+    return `${result.breached ? '❌' : '✅'} ${label}: ${lift} vs. control, always-valid p=${pValue}` +
+      ` (tolerates -${result.threshold}%)`;
+  });
+}
+
+/**
+ * Action taken by `experiment watch`
+ */
+export interface GuardrailDecision {
+  at: string;
+  action: 'stopped' | 'dry_run';
+  reason: string;
+  breaches: GuardrailResult[];
+}
+
+/**
+ * Persisted watch log contents
+ */
+export interface GuardrailLogData {
+  experimentKey: string;
+  checks: Array<{ at: string; results: GuardrailResult[] }>;
+  decision?: GuardrailDecision;
+}
+
+/**
+ * Per-experiment guardrail log stored in .experiments/<key>/guardrails.json
+ */
+export class GuardrailLog {
+  private filePath: string;
+  private data: GuardrailLogData;
+
+  private constructor(filePath: string, data: GuardrailLogData) {
+    this.filePath = filePath;
+    this.data = data;
+  }
+
+  /**
+   * Log file location for an experiment
+   */
+  static pathFor(projectRoot: string, experimentKey: string): string {
+    return join(projectRoot, '.experiments', experimentKey, 'guardrails.json');
+  }
+
+  /**
+   * Load the log, or start an empty one
+   */
+  static load(projectRoot: string, experimentKey: string): GuardrailLog {
+    const filePath = GuardrailLog.pathFor(projectRoot, experimentKey);
+    return new GuardrailLog(filePath, existsSync(filePath)
+      ? JSON.parse(readFileSync(filePath, 'utf-8'))
+      : { experimentKey, checks: [] });
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  get decision(): GuardrailDecision | undefined {
+    return this.data.decision;
+  }
+
+  /**
+   * Always-valid p-values from the latest look, to continue the running minimum
+   */
+  runningPValues(): Record<string, number> {
+    const pValues: Record<string, number> = {};
+    const last = this.data.checks[this.data.checks.length - 1];
+
+    (last?.results || []).forEach(result => {
+      if (result.pValue !== undefined) pValues[guardrailId(result.metric, result.variant)] = result.pValue;
+    });
+    return pValues;
+  }
+
+  /**
+   * Append one look
+   */
+  recordCheck(evaluation: GuardrailEvaluation): void {
+    this.data.checks.push({ at: new Date().toISOString(), results: evaluation.results });
+    this.save();
+  }
+
+  /**
+   * Record the stop decision (or what would have been stopped in a dry run)
+   */
+  recordDecision(action: GuardrailDecision['action'], reason: string, breaches: GuardrailResult[]): void {
+    this.data.decision = { at: new Date().toISOString(), action, reason, breaches };
+    this.save();
+  }
+
+  private save(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, `${JSON.stringify(this.data, null, 2)}\n`);
+  }
+}
@@ -3,8 +3,15 @@
  * Provides typed interface for MCP Statsig tools
  */
 
-import { readFileSync } from 'fs';
+import { existsSync, readFileSync } from 'fs';
 import { join } from 'path';
+import { HttpTransport, StdioTransport, type MCPTransport } from './mcp-transport.js';
+import type {
+  StatsigBackend,
+  StatsigExperimentConfig,
+  StatsigGateConfig,
+  StatsigLayerConfig,
+} from './statsig-backend.js';
 
 /**
  * MCP Tool Response Interface
@@ -16,47 +23,39 @@ export interface MCPResponse<T = any> {
 }
 
 /**
- * Statsig Experiment Configuration
+ * MCP server entry from mcp.json (stdio or HTTP)
  */
-export interface StatsigExperimentConfig {
-  id: string;
-  name: string;
-  description: string;
-  hypothesis: string;
-  groups: Array<{
-    name: string;
-    id?: string;
-    size: number;
-    parameterValues: Record<string, any>;
-    disabled?: boolean;
-    description?: string;
-  }>;
-  primaryMetrics: Array<{
-    name: string;
-    type: string;
-    direction?: 'increase' | 'decrease';
-    hypothesizedValue?: number;
-  }>;
-  secondaryMetrics?: Array<{
-    name: string;
-    type: string;
-    direction?: 'increase' | 'decrease';
-    hypothesizedValue?: number;
-  }>;
-  idType: string;
-  targetingGateID?: string;
-  tags?: string[];
+export interface MCPServerConfig {
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
 }
 
+/**
+ * MCP protocol version requested during initialization
+ */
+const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+/**
+ * Server names tried (in order) when STATSIG_MCP_SERVER is not set
+ */
+const DEFAULT_SERVER_NAMES = ['statsig', 'statsig-local'];
+
 /**
  * MCP Client for Statsig Operations
  */
-export class MCPClient {
-  private mcpConfig: any;
+export class MCPClient implements StatsigBackend {
+  readonly kind = 'mcp' as const;
+  private mcpConfig?: { mcpServers?: Record<string, MCPServerConfig> };
   private baseUrl: string;
+  private transport: MCPTransport | null = null;
+  private connecting: Promise<MCPTransport> | null = null;
+  private availableTools = new Set<string>();
+  private serverName = '';
 
   constructor() {
-    this.loadMCPConfig();
     this.baseUrl = 'https://api.statsig.com/v1/mcp';
   }
 
@@ -64,34 +63,152 @@ export class MCPClient {
    * Load MCP configuration from cursor config
    */
   private loadMCPConfig(): void {
+    if (this.mcpConfig) return;
+
+    const configPath = process.env.MCP_CONFIG_PATH || join(process.env.HOME || '', '.cursor', 'mcp.json');
+    if (!existsSync(configPath)) {
+      this.mcpConfig = {};
+      return;
+    }
+
     try {
-      const configPath = join(process.env.HOME || '', '.cursor', 'mcp.json');
       const configContent = readFileSync(configPath, 'utf-8');
       this.mcpConfig = JSON.parse(configContent);
     } catch (error) {
       console.error('Failed to load MCP config:', error);
-      throw new Error('MCP configuration not found. Please ensure MCP is properly configured.');
+      throw new Error(`MCP configuration at ${configPath} could not be parsed.`);
     }
   }
 
   /**
-   * Get authentication token from MCP config or environment
+   * Get authentication token from the server's MCP config, else the environment
+   */
+  private getAuthToken(server?: MCPServerConfig): string | undefined {
+    return server?.env?.AUTH_TOKEN || process.env.STATSIG_CONSOLE_API_KEY;
+  }
+
+  /**
+   * Pick the Statsig server entry from mcp.json
    */
-  private getAuthToken(): string {
-    // First try environment variable
-    if (process.env.STATSIG_CONSOLE_API_KEY) {
-      console.log(`🔑 Using STATSIG_CONSOLE_API_KEY from environment`);
-      return process.env.STATSIG_CONSOLE_API_KEY;
+  private resolveServer(): { name: string; config: MCPServerConfig } {
+    this.loadMCPConfig();
+    const servers = this.mcpConfig?.mcpServers || {};
+
+    const requested = process.env.STATSIG_MCP_SERVER;
+    if (requested) {
+      if (!servers[requested]) {
+        throw new Error(`MCP server '${requested}' not found in MCP configuration.`);
+      }
+      return { name: requested, config: servers[requested] };
+    }
+
+    const name = DEFAULT_SERVER_NAMES.find(candidate => servers[candidate]);
+    if (name) {
+      return { name, config: servers[name] };
+    }
+
+    // No local entry: fall back to the hosted Statsig MCP endpoint
+    if (this.getAuthToken()) {
+      return { name: 'statsig', config: { url: this.baseUrl } };
+    }
+
+    throw new Error('MCP configuration not found. Please ensure MCP is properly configured.');
+  }
+
+  /**
+   * Build the transport for a server entry
+   */
+  private createTransport(config: MCPServerConfig): MCPTransport {
+    const authToken = this.getAuthToken(config);
+
+    if (config.command) {
+      // A key set explicitly in the server's env is passed through untouched
+      return new StdioTransport(config.command, config.args || [], {
+        ...(authToken ? { STATSIG_CONSOLE_API_KEY: authToken } : {}),
+        ...config.env,
+      });
     }
-    
-    // Fallback to MCP config
-    const statsigConfig = this.mcpConfig?.mcpServers?.statsig;
-    if (!statsigConfig?.env?.AUTH_TOKEN) {
-      console.log(`❌ No STATSIG_CONSOLE_API_KEY found in environment`);
-      console.log(`Available env vars:`, Object.keys(process.env).filter(k => k.includes('STATSIG')));
-      throw new Error('Statsig AUTH_TOKEN not found in MCP configuration or environment');
+
+    if (config.url) {
+      return new HttpTransport(config.url, {
+        ...(authToken ? { 'statsig-api-key': authToken } : {}),
+        ...config.headers,
+      });
+    }
+
+    throw new Error(`MCP server '${this.serverName}' must define either 'command' or 'url'.`);
+  }
+
+  /**
+   * Connect and run the MCP initialize handshake (once)
+   */
+  private async connect(): Promise<MCPTransport> {
+    if (this.transport) return this.transport;
+    if (this.connecting) return this.connecting;
+
+    this.connecting = (async () => {
+      const { name, config } = this.resolveServer();
+      this.serverName = name;
+      const transport = this.createTransport(config);
+
+      try {
+        await transport.request('initialize', {
+          protocolVersion: MCP_PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: { name: 'experiment-cli', version: '1.0.0' },
+        });
+        await transport.notify('notifications/initialized');
+
+        const tools = await this.listTools(transport);
+        this.availableTools = new Set(tools);
+      } catch (error) {
+        await transport.close();
+        throw error;
+      }
+
+      this.transport = transport;
+      return transport;
+    })();
+
+    try {
+      return await this.connecting;
+    } finally {
+      this.connecting = null;
+    }
+  }
+
+  /**
+   * Fetch all tool names, following pagination cursors
+   */
+  private async listTools(transport: MCPTransport): Promise<string[]> {
+    const names: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await transport.request('tools/list', cursor ? { cursor } : {});
+      for (const tool of result?.tools || []) {
+        names.push(tool.name);
+      }
+      cursor = result?.nextCursor;
+    } while (cursor);
+
+    return names;
+  }
+
+  /**
+   * Map Cursor-style names (mcp_<server>_<Tool>) onto the server's tool names
+   */
+  private resolveToolName(toolName: string): string {
+    if (this.availableTools.has(toolName)) {
+      return toolName;
+    }
+
+    const match = toolName.match(/^mcp_[^_]+_(.+)$/);
+    if (match && this.availableTools.has(match[1])) {
+      return match[1];
     }
-    return statsigConfig.env.AUTH_TOKEN;
+
+    throw new Error(`Tool ${toolName} is not provided by MCP server '${this.serverName}'`);
   }
 
   /**
@@ -99,16 +216,17 @@ export class MCPClient {
    */
   private async callMCPTool(toolName: string, params: any): Promise<MCPResponse> {
     try {
-      const authToken = this.getAuthToken();
-      
-      // For now, we'll use a mock implementation that simulates MCP calls
-      // In a real implementation, this would use the actual MCP protocol
-      console.log(`🔧 Calling MCP tool: ${toolName}`, { params });
-      
-      // Simulate MCP tool response based on tool name
-      return await this.simulateMCPResponse(toolName, params);
+      const transport = await this.connect();
+      const name = this.resolveToolName(toolName);
+
+      if (process.env.MCP_DEBUG) {
+        console.log(`🔧 Calling MCP tool: ${name}`, { params });
+      }
+
+      const result = await transport.request('tools/call', { name, arguments: params });
+      return this.toMCPResponse(result);
     } catch (error) {
-      console.error(`❌ MCP tool call failed: ${toolName}`, error);
+      console.error(`❌ MCP tool call failed: ${toolName}`, error instanceof Error ? error.message : error);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -117,66 +235,43 @@ export class MCPClient {
   }
 
   /**
-   * Simulate MCP response (replace with real MCP implementation)
+   * Convert a tools/call result into an MCPResponse
    */
-  private async simulateMCPResponse(toolName: string, params: any): Promise<MCPResponse> {
-    // This simulates the MCP tool responses
-    // In production, this would be replaced with actual MCP protocol calls
-    
-    switch (toolName) {
-      case 'mcp_statsig-local_Create_Experiment':
-        return {
-          success: true,
-          data: {
-            id: `exp_${Date.now()}`,
-            name: params['application/json']?.name || 'New Experiment',
-            status: 'setup'
-          }
-        };
-
-      case 'mcp_statsig-local_Get_Experiment_Details_by_ID':
-        return {
-          success: true,
-          data: {
-            id: params.path_id,
-            name: 'Mock Experiment',
-            status: 'setup',
-            groups: [],
-            primaryMetrics: [],
-            description: 'Mock experiment for testing'
-          }
-        };
-
-      case 'mcp_statsig-local_Update_Experiment_Entirely':
-        return {
-          success: true,
-          data: {
-            id: params.path_id,
-            status: 'active',
-            updated: new Date().toISOString()
-          }
-        };
-
-      case 'mcp_statsig-local_Get_List_of_Experiments':
-        return {
-          success: true,
-          data: {
-            experiments: [
-              {
-                id: 'exp_1',
-                name: 'Prime Banner Test',
-                status: 'active'
-              }
-            ]
-          }
-        };
-
-      default:
-        return {
-          success: true,
-          data: { message: `Mock response for ${toolName}` }
-        };
+  private toMCPResponse(result: any): MCPResponse {
+    const text = (result?.content || [])
+      .filter((item: any) => item.type === 'text')
+      .map((item: any) => item.text)
+      .join('\n');
+
+    if (result?.isError) {
+      return { success: false, error: text || 'MCP tool returned an error' };
+    }
+
+    let payload = result?.structuredContent;
+    if (payload === undefined && text) {
+      try {
+        payload = JSON.parse(text);
+      } catch {
+        payload = text;
+      }
+    }
+
+    // Statsig Console API responses are wrapped as { message, data }
+    if (payload && typeof payload === 'object' && 'data' in payload && 'message' in payload) {
+      payload = payload.data;
     }
+
+    return { success: true, data: payload };
+  }
+
+  /**
+   * Close the connection to the MCP server
+   */
+  async close(): Promise<void> {
+    const transport = this.transport;
+    this.transport = null;
+    this.availableTools.clear();
+    await transport?.close();
   }
 
   /**
@@ -245,6 +340,25 @@ export class MCPClient {
     return this.updateExperiment(experimentId, updatedConfig);
   }
 
+  /**
+   * Archive experiment
+   */
+  async archiveExperiment(experimentId: string): Promise<MCPResponse> {
+    return this.callMCPTool('mcp_statsig-local_Archive_Experiment', {
+      path_id: experimentId
+    });
+  }
+
+  /**
+   * Ship one group and conclude the experiment
+   */
+  async makeDecision(experimentId: string, groupId: string, reason: string): Promise<MCPResponse> {
+    return this.callMCPTool('mcp_statsig-local_Make_Experiment_Decision', {
+      path_id: experimentId,
+      'application/json': { id: groupId, decisionReason: reason }
+    });
+  }
+
   /**
    * List all experiments
    */
@@ -262,6 +376,52 @@ export class MCPClient {
       query_test: testGroup
     });
   }
+
+  /**
+   * Get layer details by ID
+   */
+  async getLayer(layerId: string): Promise<MCPResponse> {
+    return this.callMCPTool('mcp_statsig-local_Get_Layer_Details_by_ID', {
+      path_id: layerId
+    });
+  }
+
+  /**
+   * Create layer in Statsig
+   */
+  async createLayer(config: StatsigLayerConfig): Promise<MCPResponse> {
+    return this.callMCPTool('mcp_statsig-local_Create_Layer', {
+      'application/json': config
+    });
+  }
+
+  /**
+   * Get gate details by ID
+   */
+  async getGate(gateId: string): Promise<MCPResponse> {
+    return this.callMCPTool('mcp_statsig-local_Get_Gate_Details_by_ID', {
+      path_id: gateId
+    });
+  }
+
+  /**
+   * Create gate in Statsig
+   */
+  async createGate(config: StatsigGateConfig): Promise<MCPResponse> {
+    return this.callMCPTool('mcp_statsig-local_Create_Gate', {
+      'application/json': config
+    });
+  }
+
+  /**
+   * Update gate entirely
+   */
+  async updateGate(gateId: string, config: StatsigGateConfig): Promise<MCPResponse> {
+    return this.callMCPTool('mcp_statsig-local_Update_Gate_Entirely', {
+      path_id: gateId,
+      'application/json': config
+    });
+  }
 }
 
 /**
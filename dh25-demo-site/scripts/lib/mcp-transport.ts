@@ -0,0 +1,345 @@
+/**
+ * MCP Transports
+ * JSON-RPC 2.0 transports for talking to MCP servers over stdio or HTTP/SSE
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+
+/**
+ * JSON-RPC error object
+ */
+export interface JSONRPCError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+/**
+ * JSON-RPC message (request, notification or response)
+ */
+export interface JSONRPCMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: Record<string, any>;
+  result?: any;
+  error?: JSONRPCError;
+}
+
+/**
+ * Error raised when the server answers with a JSON-RPC error
+ */
+export class MCPProtocolError extends Error {
+  code: number;
+  data?: any;
+
+  constructor(error: JSONRPCError) {
+    super(`MCP error ${error.code}: ${error.message}`);
+    this.name = 'MCPProtocolError';
+    this.code = error.code;
+    this.data = error.data;
+  }
+}
+
+/**
+ * Transport used by the MCP client
+ */
+export interface MCPTransport {
+  request(method: string, params?: Record<string, any>): Promise<any>;
+  notify(method: string, params?: Record<string, any>): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Pending request bookkeeping
+ */
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Default timeout for a single JSON-RPC request
+ */
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Stdio transport: spawns the server and exchanges newline-delimited JSON
+ */
+export class StdioTransport implements MCPTransport {
+  private child: ChildProcessWithoutNullStreams | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  private buffer = '';
+  private stderrTail = '';
+
+  constructor(
+    private command: string,
+    private args: string[] = [],
+    private env: Record<string, string> = {},
+    private timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  /**
+   * Spawn the server process on first use
+   */
+  private ensureStarted(): ChildProcessWithoutNullStreams {
+    if (this.child) {
+      return this.child;
+    }
+
+    const child = spawn(this.command, this.args, {
+      env: { ...process.env, ...this.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    child.stdout.setEncoding('utf-8');
+    child.stdout.on('data', (chunk: string) => this.handleData(chunk));
+
+    child.stderr.setEncoding('utf-8');
+    child.stderr.on('data', (chunk: string) => {
+      this.stderrTail = (this.stderrTail + chunk).slice(-2000);
+      if (process.env.MCP_DEBUG) {
+        process.stderr.write(chunk);
+      }
+    });
+
+    child.on('error', (error) => this.failAll(new Error(`MCP server failed to start: ${error.message}`)));
+    child.on('exit', (code) => {
+      const details = this.stderrTail.trim() ? `\n${this.stderrTail.trim()}` : '';
+      this.failAll(new Error(`MCP server exited with code ${code}${details}`));
+      this.child = null;
+    });
+
+    this.child = child;
+    return child;
+  }
+
+  /**
+   * Split stdout into lines and dispatch each JSON-RPC message
+   */
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+
+    let newlineIndex = this.buffer.indexOf('\n');
+    while (newlineIndex >= 0) {
+      const line = this.buffer.slice(0, newlineIndex).trim();
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+      newlineIndex = this.buffer.indexOf('\n');
+
+      if (!line) continue;
+
+      try {
+        this.handleMessage(JSON.parse(line));
+      } catch {
+        // Servers sometimes print banners to stdout; ignore anything that is not JSON
+      }
+    }
+  }
+
+  /**
+   * Resolve pending requests and answer server-initiated requests
+   */
+  private handleMessage(message: JSONRPCMessage): void {
+    if (message.method) {
+      if (message.id !== undefined && message.id !== null) {
+        this.write(
+          message.method === 'ping'
+            ? { jsonrpc: '2.0', id: message.id, result: {} }
+            : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } }
+        );
+      }
+      return;
+    }
+
+    const pending = typeof message.id === 'number' ? this.pending.get(message.id) : undefined;
+    if (!pending) return;
+
+    this.pending.delete(message.id as number);
+    clearTimeout(pending.timer);
+
+    if (message.error) {
+      pending.reject(new MCPProtocolError(message.error));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  /**
+   * Reject every in-flight request
+   */
+  private failAll(error: Error): void {
+    this.pending.forEach((pending) => {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    });
+    this.pending.clear();
+  }
+
+  private write(message: JSONRPCMessage): void {
+    this.ensureStarted().stdin.write(`${JSON.stringify(message)}\n`);
+  }
+
+  async request(method: string, params?: Record<string, any>): Promise<any> {
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`MCP request timed out after ${this.timeoutMs}ms: ${method}`));
+      }, this.timeoutMs);
+
+      this.pending.set(id, { resolve, reject, timer });
+
+      try {
+        this.write({ jsonrpc: '2.0', id, method, params });
+      } catch (error) {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  async notify(method: string, params?: Record<string, any>): Promise<void> {
+    this.write({ jsonrpc: '2.0', method, params });
+  }
+
+  async close(): Promise<void> {
+    const child = this.child;
+    if (!child) return;
+
+    this.child = null;
+    this.failAll(new Error('MCP transport closed'));
+    child.stdin.end();
+    child.kill();
+  }
+}
+
+/**
+ * Streamable HTTP transport: POSTs JSON-RPC and accepts JSON or SSE replies
+ */
+export class HttpTransport implements MCPTransport {
+  private nextId = 1;
+  private sessionId: string | null = null;
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string> = {},
+    private timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  /**
+   * POST a message and read the whole reply; the timeout covers the body too,
+   * so an SSE stream that never closes cannot hang the caller
+   */
+  private async post(message: JSONRPCMessage): Promise<{ status: number; contentType: string; body: string }> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json, text/event-stream',
+          ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+          ...this.headers,
+        },
+        body: JSON.stringify(message),
+        signal: controller.signal,
+      });
+
+      const sessionId = response.headers.get('mcp-session-id');
+      if (sessionId) {
+        this.sessionId = sessionId;
+      }
+
+      const body = await response.text();
+      if (!response.ok) {
+        throw new Error(`MCP HTTP error ${response.status}: ${body || response.statusText}`);
+      }
+
+      return { status: response.status, contentType: response.headers.get('content-type') || '', body };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`MCP request timed out after ${this.timeoutMs}ms: ${message.method}`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async request(method: string, params?: Record<string, any>): Promise<any> {
+    const id = this.nextId++;
+    const { status, contentType, body } = await this.post({ jsonrpc: '2.0', id, method, params });
+
+    if (!body.trim()) {
+      throw new Error(`MCP server sent an empty response (HTTP ${status}) to request ${id} (${method})`);
+    }
+
+    let parsed: JSONRPCMessage | JSONRPCMessage[];
+    try {
+      parsed = contentType.includes('text/event-stream') ? parseSSEMessages(body) : JSON.parse(body);
+    } catch (error) {
+      throw new Error(`MCP server sent invalid JSON to request ${id} (${method}): ${error instanceof Error ? error.message : error}`);
+    }
+    const messages: JSONRPCMessage[] = Array.isArray(parsed) ? parsed : [parsed];
+
+    const reply = messages.find(message => message.id === id && !message.method);
+    if (!reply) {
+      throw new Error(`MCP server did not answer request ${id} (${method})`);
+    }
+
+    if (reply.error) {
+      throw new MCPProtocolError(reply.error);
+    }
+
+    return reply.result;
+  }
+
+  async notify(method: string, params?: Record<string, any>): Promise<void> {
+    await this.post({ jsonrpc: '2.0', method, params });
+  }
+
+  async close(): Promise<void> {
+    if (!this.sessionId) return;
+
+    try {
+      await fetch(this.url, {
+        method: 'DELETE',
+        headers: { 'Mcp-Session-Id': this.sessionId, ...this.headers },
+      });
+    } catch {
+      // Session cleanup is best effort
+    }
+    this.sessionId = null;
+  }
+}
+
+/**
+ * Parse JSON-RPC messages out of a Server-Sent Events body
+ */
+export function parseSSEMessages(body: string): JSONRPCMessage[] {
+  const messages: JSONRPCMessage[] = [];
+
+  for (const event of body.split(/\r?\n\r?\n/)) {
+    const data = event
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+
+    if (!data) continue;
+
+    try {
+      messages.push(JSON.parse(data));
+    } catch {
+      // Skip keep-alive and non-JSON events
+    }
+  }
+
+  return messages;
+}
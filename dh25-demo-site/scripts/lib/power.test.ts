@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { readFileSync } from 'fs';
+import { impliedVariance, parseDurationDays, planExperimentPower, twoGroupSampleSize } from './power.js';
+import { validateContract } from './contract-schema.js';
+
+/**
+ * 50/50 contract with one ratio metric hypothesized at +10%
+ */
+function powerContract(overrides: Record<string, unknown> = {}) {
+  return validateContract({
+    schemaVersion: 2,
+    experimentKey: 'power_test',
+    name: 'Power test',
+    variants: {
+      control: { name: 'Control', parameters: { enabled: false }, passPercentage: 50 },
+      treatment: { name: 'Treatment', parameters: { enabled: true }, passPercentage: 50 },
+    },
+    codeChanges: [{ file: 'src/app/page.tsx', function: 'Page', parameterUsage: 'enabled' }],
+    primaryMetrics: [{ name: 'conversion', type: 'ratio', hypothesizedValue: 10 }],
+    allocation: 50,
+    branchConfig: { branchName: 'exp/power_test' },
+    deployment: {},
+    statsig: {},
+    metadata: { estimatedDuration: '2 weeks' },
+    ...overrides,
+  });
+}
+
+const baselines = { conversion: { mean: 0.1, variance: 0.09, source: 'test' } };
+
+test('twoGroupSampleSize matches the textbook two-proportion sample size', () => {
+  // n = 2 (z₀.₉₇₅ + z₀.₈)² p(1 - p) / δ² = 2 · 7.84888 · 0.09 / 0.01² = 14127.98
+  assert.deepEqual(twoGroupSampleSize(0.09, 0.01, 0.5, 0.5, 95, 0.8), { control: 14128, test: 14128 });
+  // A 1:2 split needs 4.5/4 times the balanced total, split 1:2
+  assert.deepEqual(twoGroupSampleSize(0.09, 0.01, 1 / 3, 2 / 3, 95, 0.8), { control: 10596, test: 21192 });
+});
+
+test('planExperimentPower sizes each variant and converts traffic to days', () => {
+  const plan = planExperimentPower(powerContract(), { baselines, dailyUsers: 1000 });
+  const [metric] = plan.metrics;
+
+  assert.equal(plan.confidenceLevel, 95);
+  assert.deepEqual(metric.perVariant, { control: 14128, treatment: 14128 });
+  assert.equal(metric.totalUsers, 28256);
+  // Each variant fills at 1000 · 50% allocation · 50% = 250 users/day
+  assert.equal(metric.days, 57);
+  assert.equal(plan.requiredDays, 57);
+  assert.equal(plan.estimatedDays, 14);
+});
+
+test('planExperimentPower applies Bonferroni and ignores disabled variants', () => {
+  const plan = planExperimentPower(powerContract({
+    variants: {
+      control: { name: 'Control', parameters: { enabled: false }, passPercentage: 50 },
+      treatment: { name: 'Treatment', parameters: { enabled: true }, passPercentage: 50 },
+      retired: { name: 'Retired', parameters: { enabled: true }, passPercentage: 20, disabled: true },
+    },
+    secondaryMetrics: [{ name: 'revenue', type: 'revenue' }],
+    statsig: { bonferroniCorrection: true },
+  }), { baselines });
+
+  // Two metrics × one treatment: alpha 0.025, so z₀.₉₈₇₅ replaces z₀.₉₇₅ (n = 17109.07)
+  assert.equal(plan.confidenceLevel, 97.5);
+  assert.deepEqual(plan.metrics[0].perVariant, { control: 17110, treatment: 17110 });
+  assert.equal(plan.metrics[0].days, undefined);
+});
+
+test('planExperimentPower fills variants at their traffic share, leaving holdouts unplanned', () => {
+  const plan = planExperimentPower(powerContract({
+    variants: {
+      control: { name: 'Control', parameters: { enabled: false }, passPercentage: 40 },
+      treatment: { name: 'Treatment', parameters: { enabled: true }, passPercentage: 40 },
+      holdout: { name: 'Holdout', parameters: { enabled: false }, passPercentage: 20, holdout: true },
+      retired: { name: 'Retired', parameters: { enabled: true }, passPercentage: 30, disabled: true },
+    },
+  }), { baselines, dailyUsers: 1000 });
+
+  // The pair is still 50/50, but each side fills at 1000 · 50% · 40% = 200 users/day
+  assert.deepEqual(plan.metrics[0].perVariant, { control: 14128, treatment: 14128 });
+  assert.equal(plan.metrics[0].days, 71);
+});
+
+test('planExperimentPower explains metrics it cannot plan', () => {
+  const plan = planExperimentPower(powerContract(), { baselines: {} });
+  assert.equal(plan.metrics[0].skipped, 'no baseline (use --events or --baseline)');
+
+  const flat = planExperimentPower(powerContract(), { baselines: { conversion: { mean: 0.1, variance: 0, source: 'test' } } });
+  assert.equal(flat.metrics[0].skipped, 'baseline has no variation');
+});
+
+test('parseDurationDays and impliedVariance', () => {
+  assert.equal(parseDurationDays('14 days'), 14);
+  assert.equal(parseDurationDays('3w'), 21);
+  assert.equal(parseDurationDays('1 month'), 30);
+  assert.equal(parseDurationDays('soon'), undefined);
+  assert.equal(impliedVariance({ name: 'ctr', type: 'ratio', direction: 'increase' }, 0.2), 0.2 * 0.8);
+  assert.equal(impliedVariance({ name: 'clicks', type: 'count', direction: 'increase' }, 3), 3);
+  assert.equal(impliedVariance({ name: 'revenue', type: 'revenue', direction: 'increase' }, 3), undefined);
+});
+
+test('documented power invocations run against the checked-in contracts', () => {
+  const invocations = ['EXPERIMENT_WORKFLOW.md', 'scripts/experiment-cli.ts']
+    .flatMap(file => readFileSync(file, 'utf-8').match(/npm run experiment power \w+ -- [^\n]+/g) || []);
+  assert.ok(invocations.length >= 2);
+
+  invocations.forEach(invocation => {
+    // npm drops the `--` separator before passing arguments to the script
+    const args = invocation.replace('npm run experiment ', '').split(/\s+/).filter(arg => arg !== '--');
+    const output = execFileSync(process.execPath, ['--import', 'tsx', 'scripts/experiment-cli.ts', ...args], {
+      encoding: 'utf-8',
+      env: { ...process.env, EXPERIMENT_EVENT_LOG: '' },
+    });
+    assert.match(output, /Required duration: \d+ day\(s\)/, invocation);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Power Analysis
+ * Required sample size and duration for a contract's hypothesized lift
+ */
+
+import type { ExperimentContract, PrimaryMetric } from './contract-schema.js';
+import { controlVariantKey, treatmentVariantKeys } from './experiment-results.js';
+import { bonferroniConfidenceLevel, criticalZ, normalQuantile } from './statistics.js';
+import { BASIS_POINTS, variantBasisPoints } from './variant-split.js';
+import { dailyActiveUsers, metricBaseline, type LoggedEvent } from './analysis/index.js';
+
+/**
+ * Baseline mean and per-user variance of a metric
+ */
+export interface MetricBaseline {
+  mean: number;
+  variance: number;
+  /** Where the numbers came from (event log, flag) */
+  source: string;
+}
+
+/**
+ * Inputs besides the contract
+ */
+export interface PowerOptions {
+  /** Baselines by metric name */
+  baselines: Record<string, MetricBaseline>;
+  /** Eligible users per day before allocation */
+  dailyUsers?: number;
+  /** Probability of detecting the hypothesized lift (default 0.8) */
+  power?: number;
+}
+
+/**
+ * Sample size plan for one primary metric
+ */
+export interface MetricPowerPlan {
+  metric: string;
+  type: PrimaryMetric['type'];
+  baseline?: MetricBaseline;
+  /** Hypothesized relative lift, as a fraction */
+  relativeLift: number;
+  /** Required users per variant */
+  perVariant: Record<string, number>;
+  totalUsers: number;
+  /** Days to reach the sample size at the given traffic */
+  days?: number;
+  /** Why the metric could not be planned */
+  skipped?: string;
+}
+
+/**
+ * Power analysis for an experiment
+ */
+export interface PowerPlan {
+  experimentKey: string;
+  power: number;
+  /** Confidence level used (after Bonferroni, if the contract enables it) */
+  confidenceLevel: number;
+  dailyUsers?: number;
+  /** Share of daily users entering the experiment */
+  allocation: number;
+  metrics: MetricPowerPlan[];
+  /** Longest metric duration, in days */
+  requiredDays?: number;
+  /** metadata.estimatedDuration in days, when it parses */
+  estimatedDays?: number;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  d: 1, day: 1, days: 1,
+  w: 7, wk: 7, wks: 7, week: 7, weeks: 7,
+  m: 30, mo: 30, month: 30, months: 30,
+};
+
+/**
+ * Parse free-text durations such as "14 days", "2 weeks", "3w" or "1 month" into days
+ */
+export function parseDurationDays(text: string | undefined): number | undefined {
+  const match = text?.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([a-z]+)$/);
+  if (!match || !(match[2] in DURATION_UNITS)) return undefined;
+  return parseFloat(match[1]) * DURATION_UNITS[match[2]];
+}
+
+/**
+ * Per-user variance implied by a baseline mean when only the mean is known
+ */
+export function impliedVariance(metric: PrimaryMetric, mean: number): number | undefined {
+  if (metric.type === 'ratio' && !metric.denominatorEvent) return mean * (1 - mean);
+  if (metric.type === 'count') return mean;
+  return undefined;
+}
+
+/**
+ * Primary metric baselines and daily traffic measured from an event log
+ */
+export function powerOptionsFromEvents(
+  contract: ExperimentContract,
+  events: LoggedEvent[],
+  source: string
+): PowerOptions {
+  const baselines: Record<string, MetricBaseline> = {};
+
+  contract.primaryMetrics.forEach(metric => {
+    const summary = metricBaseline(metric, events);
+    if (summary) {
+      baselines[metric.name] = { mean: summary.mean, variance: summary.variance, source };
+    }
+  });
+
+  return { baselines, dailyUsers: dailyActiveUsers(events) };
+}
+
+/**
+ * Users needed in each of two groups (weights are shares of the pair) to detect
+ * an absolute difference `delta` with a two-sided test
+ */
+export function twoGroupSampleSize(
+  variance: number,
+  delta: number,
+  controlWeight: number,
+  testWeight: number,
+  confidenceLevel: number,
+  power: number
+): { control: number; test: number } {
+  const z = criticalZ(confidenceLevel) + normalQuantile(power);
+  const total = (z ** 2 * variance * (1 / controlWeight + 1 / testWeight)) / delta ** 2;
+  return { control: Math.ceil(total * controlWeight), test: Math.ceil(total * testWeight) };
+}
+
+/**
+ * Sample size and duration for every primary metric with a hypothesizedValue
+ */
+export function planExperimentPower(contract: ExperimentContract, options: PowerOptions): PowerPlan {
+  const power = options.power ?? 0.8;
+  const controlKey = controlVariantKey(contract);
+  const variantKeys = Object.keys(contract.variants);
+  const treatments = treatmentVariantKeys(contract);
+  const comparisons = Math.max(1, (contract.primaryMetrics.length + contract.secondaryMetrics.length) * treatments.length);
+  const confidenceLevel = contract.statsig.bonferroniCorrection
+    ? bonferroniConfidenceLevel(contract.statsig.confidenceInterval, comparisons)
+    : contract.statsig.confidenceInterval;
+  const allocation = contract.allocation / 100;
+  // Exact traffic shares: disabled variants get none, holdouts keep theirs
+  const shares = variantBasisPoints(contract.variants);
+
+  const metrics = contract.primaryMetrics.map((metric): MetricPowerPlan => {
+    const baseline = options.baselines[metric.name];
+    const relativeLift = Math.abs(metric.hypothesizedValue || 0) / 100;
+    const plan: MetricPowerPlan = { metric: metric.name, type: metric.type, baseline, relativeLift, perVariant: {}, totalUsers: 0 };
+
+    if (!relativeLift) return { ...plan, skipped: 'no hypothesizedValue' };
+    if (!baseline) return { ...plan, skipped: 'no baseline (use --events or --baseline)' };
+    if (baseline.mean === 0 || !(baseline.variance > 0)) return { ...plan, skipped: 'baseline has no variation' };
+
+    // Size every control/treatment pair; control needs the most of any pair
+    const delta = baseline.mean * relativeLift;
+    const perVariant: Record<string, number> = { [controlKey]: 0 };
+    treatments.forEach(variant => {
+      const controlShare = shares[controlKey];
+      const testShare = shares[variant];
+      const pair = twoGroupSampleSize(
+        baseline.variance,
+        delta,
+        controlShare / (controlShare + testShare),
+        testShare / (controlShare + testShare),
+        confidenceLevel,
+        power
+      );
+      perVariant[controlKey] = Math.max(perVariant[controlKey], pair.control);
+      perVariant[variant] = pair.test;
+    });
+
+    // A variant receiving b basis points of allocated traffic fills at dailyUsers * allocation * b/10000
+    const days = options.dailyUsers && allocation > 0
+      ? Math.max(...variantKeys
+        .filter(key => shares[key] > 0)
+        .map(key => (perVariant[key] || 0) / (options.dailyUsers! * allocation * shares[key] / BASIS_POINTS)))
+      : undefined;
+
+    return {
+      ...plan,
+      perVariant,
+      totalUsers: variantKeys.reduce((sum, key) => sum + (perVariant[key] || 0), 0),
+      days: days !== undefined ? Math.ceil(days) : undefined,
+    };
+  });
+
+  const planned = metrics.filter(metric => metric.days !== undefined).map(metric => metric.days!);
+
+  return {
+    experimentKey: contract.experimentKey,
+    power,
+    confidenceLevel,
+    dailyUsers: options.dailyUsers,
+    allocation: contract.allocation,
+    metrics,
+    requiredDays: planned.length > 0 ? Math.max(...planned) : undefined,
+    estimatedDays: parseDurationDays(contract.metadata.estimatedDuration),
+  };
+}
+
+/**
+ * Console summary of a power plan
+ */
+export function formatPowerPlan(plan: PowerPlan): string {
+  const lines = [
+    `⚡ Power analysis for ${plan.experimentKey}`,
+    `   ${Math.round(plan.power * 100)}% power at ${Math.round(plan.confidenceLevel * 100) / 100}% confidence, ` +
+      `${plan.allocation}% allocation` +
+      (plan.dailyUsers ? `, ${Math.round(plan.dailyUsers)} eligible users/day` : ''),
+  ];
+
+  plan.metrics.forEach(metric => {
+    lines.push('', `📊 ${metric.metric} (${metric.type}, +${(metric.relativeLift * 100).toFixed(1)}% lift)`);
+    if (metric.skipped) {
+      lines.push(`   ⏭️  Skipped: ${metric.skipped}`);
+      return;
+    }
+
+    lines.push(`   Baseline: ${metric.baseline!.mean.toPrecision(4)} (sd ${Math.sqrt(metric.baseline!.variance).toPrecision(4)}, from ${metric.baseline!.source})`);
+    Object.keys(metric.perVariant).forEach(variant => {
+      lines.push(`   ${variant}: ${metric.perVariant[variant].toLocaleString('en-US')} users`);
+    });
+    lines.push(`   Total: ${metric.totalUsers.toLocaleString('en-US')} users` +
+      (metric.days !== undefined ? ` → ~${metric.days} day(s)` : ' (pass --daily-users or --events for a duration)'));
+  });
+
+  if (plan.requiredDays !== undefined) {
+    lines.push('', `⏱️  Required duration: ${plan.requiredDays} day(s)` +
+      (plan.estimatedDays !== undefined ? `; contract estimates ${plan.estimatedDays} day(s)` : ''));
+    if (plan.estimatedDays !== undefined && plan.estimatedDays < plan.requiredDays) {
+      lines.push(`⚠️  metadata.estimatedDuration is too short to reach ${Math.round(plan.power * 100)}% power`);
+    }
+  }
+
+  return lines.join('\n');
+}
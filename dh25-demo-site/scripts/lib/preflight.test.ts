@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { findOverlappingTargets, isExperimentActive } from './preflight.js';
+import { RunJournal } from './run-journal.js';
+import { validateContract, type ExperimentContract } from './contract-schema.js';
+
+/**
+ * Contract with one code change on `file`
+ */
+function layerContract(experimentKey: string, file: string, component: string): ExperimentContract {
+  return validateContract({
+    schemaVersion: 2,
+    experimentKey,
+    name: experimentKey,
+    variants: {
+      control: { name: 'Control', parameters: { enabled: false }, passPercentage: 50 },
+      treatment: { name: 'Treatment', parameters: { enabled: true }, passPercentage: 50 },
+    },
+    codeChanges: [{ file, function: component, parameterUsage: 'enabled' }],
+    branchConfig: { branchName: `exp/${experimentKey}` },
+    deployment: {},
+    statsig: {},
+  });
+}
+
+test('findOverlappingTargets flags different components in the same file', () => {
+  const header = layerContract('header_test', 'src/app/page.tsx', 'Header');
+  const footer = layerContract('footer_test', 'src/app/page.tsx', 'Footer');
+
+  assert.deepEqual(findOverlappingTargets(header, footer), ['Header (src/app/page.tsx)']);
+});
+
+test('findOverlappingTargets flags the same component in different files', () => {
+  const page = layerContract('page_test', 'src/app/page.tsx', 'Banner');
+  const product = layerContract('product_test', 'src/app/product/page.tsx', 'Banner');
+
+  assert.deepEqual(findOverlappingTargets(page, product), ['Banner (src/app/page.tsx)']);
+  assert.deepEqual(findOverlappingTargets(page, layerContract('other_test', 'src/app/cart.tsx', 'Cart')), []);
+});
+
+test('isExperimentActive prefers Statsig status over local run state', () => {
+  const projectRoot = mkdtempSync(join(tmpdir(), 'preflight-'));
+  try {
+    // Started elsewhere: no local journal, but running in Statsig
+    assert.equal(isExperimentActive(projectRoot, 'remote_test', { remote_test: 'active' }), true);
+    assert.equal(isExperimentActive(projectRoot, 'remote_test', { remote_test: 'setup' }), true);
+    assert.equal(isExperimentActive(projectRoot, 'remote_test', { remote_test: 'decision_made' }), false);
+
+    // Unknown to Statsig: active from the first local run
+    assert.equal(isExperimentActive(projectRoot, 'local_test'), false);
+    RunJournal.create(projectRoot, 'local_test');
+    assert.equal(isExperimentActive(projectRoot, 'local_test'), true);
+    assert.equal(isExperimentActive(projectRoot, 'local_test', { local_test: 'experiment_stopped' }), false);
+  } finally {
+    rmSync(projectRoot, { recursive: true, force: true });
+  }
+});
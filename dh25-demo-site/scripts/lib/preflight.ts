@@ -6,8 +6,13 @@
 import { existsSync, readFileSync } from 'fs';
 import { join } from 'path';
 import { execSync } from 'child_process';
-import { validateContract, type ExperimentContract } from './contract-schema.js';
-import { mcpClient } from './mcp-client.js';
+import type { ExperimentContract } from './contract-schema.js';
+import { findContractFile, listContractFiles, loadContractFile } from './contract-loader.js';
+import { RunJournal } from './run-journal.js';
+import { loadShipDecision } from './ship-decision.js';
+import { findDefaultEventLog, readEventLog } from './analysis/index.js';
+import { parseDurationDays, planExperimentPower, powerOptionsFromEvents } from './power.js';
+import { getStatsigBackend } from './statsig-backend.js';
 import { validateEnvironment } from './env-validator.js';
 
 /**
@@ -21,12 +26,59 @@ export interface PreflightResult {
     contract: boolean;
     environment: boolean;
     codeChanges: boolean;
+    layers: boolean;
     statsigConnectivity: boolean;
     branchState: boolean;
     deployment: boolean;
   };
 }
 
+/**
+ * Statsig statuses of experiments that no longer assign users
+ */
+const CONCLUDED_STATSIG_STATUSES = ['experiment_stopped', 'decision_made', 'archived'];
+
+/**
+ * Whether an experiment is active: Statsig's status when Statsig knows it (so
+ * runs from CI or another machine count), else from its first local run until
+ * it is rolled back or its ship decision reaches Statsig. Drafts that were
+ * never run are not.
+ */
+export function isExperimentActive(
+  projectRoot: string,
+  experimentKey: string,
+  statsigStatuses: Record<string, string> = {}
+): boolean {
+  const status = statsigStatuses[experimentKey];
+  if (status) {
+    return CONCLUDED_STATSIG_STATUSES.indexOf(status) === -1;
+  }
+
+  const journal = RunJournal.load(projectRoot, experimentKey);
+  if (!journal || journal.status === 'rolled_back') {
+    return false;
+  }
+  return !loadShipDecision(projectRoot, experimentKey)?.statsigDecided;
+}
+
+/**
+ * Files and components changed by both contracts
+ */
+export function findOverlappingTargets(contract: ExperimentContract, other: ExperimentContract): string[] {
+  const overlaps: string[] = [];
+
+  contract.codeChanges.forEach(change => {
+    other.codeChanges.forEach(otherChange => {
+      if (change.file === otherChange.file || change.function === otherChange.function) {
+        const target = `${change.function} (${change.file})`;
+        if (overlaps.indexOf(target) === -1) overlaps.push(target);
+      }
+    });
+  });
+
+  return overlaps;
+}
+
 /**
  * Preflight validator class
  */
@@ -49,6 +101,7 @@ export class PreflightValidator {
         contract: false,
         environment: false,
         codeChanges: false,
+        layers: false,
         statsigConnectivity: false,
         branchState: false,
         deployment: false,
@@ -60,19 +113,25 @@ export class PreflightValidator {
     // 1. Contract validation
     await this.validateContract(experimentKey, result);
 
+    // 1b. Estimated duration vs. required sample size (warnings only)
+    await this.checkEstimatedDuration(experimentKey, result);
+
     // 2. Environment validation
     await this.validateEnvironment(result);
 
     // 3. Code changes validation
     await this.validateCodeChanges(experimentKey, result);
 
-    // 4. Statsig connectivity
+    // 4. Layer isolation from other experiments
+    await this.validateLayers(experimentKey, result);
+
+    // 5. Statsig connectivity
     await this.validateStatsigConnectivity(result);
 
-    // 5. Branch state validation
+    // 6. Branch state validation
     await this.validateBranchState(experimentKey, result);
 
-    // 6. Deployment readiness
+    // 7. Deployment readiness
     await this.validateDeploymentReadiness(result);
 
     // Determine overall success
@@ -88,18 +147,18 @@ export class PreflightValidator {
     console.log('📋 Validating experiment contract...');
 
     try {
-      const contractPath = join(this.projectRoot, 'contract', `${experimentKey}.json`);
+      const contractPath = findContractFile(this.projectRoot, experimentKey);
       
-      if (!existsSync(contractPath)) {
-        result.errors.push(`Contract file not found: contract/${experimentKey}.json`);
+      if (!contractPath) {
+        result.errors.push(`Contract file not found: contract/${experimentKey}.{json,yaml,contract.ts}`);
         return;
       }
 
-      const contractContent = readFileSync(contractPath, 'utf-8');
-      const contractData = JSON.parse(contractContent);
-      
-      // Validate contract schema
-      const validatedContract = validateContract(contractData);
+      // Validate contract schema (older schema versions are migrated in memory)
+      const { contract: validatedContract, migratedFrom } = loadContractFile(this.projectRoot, contractPath);
+      if (migratedFrom !== undefined) {
+        result.warnings.push(`Contract uses schema v${migratedFrom}; run 'npm run experiment migrate ${experimentKey}'`);
+      }
       
       // Additional contract checks
       if (!validatedContract.variants || Object.keys(validatedContract.variants).length < 2) {
@@ -110,6 +169,14 @@ export class PreflightValidator {
         result.errors.push('Contract must specify code changes to implement');
       }
 
+      // Gates managed in the Statsig console are not declared in the contract
+      const targetingGate = validatedContract.statsig.targetingGateID;
+      if (targetingGate && !validatedContract.gates.some(gate => gate.name === targetingGate)) {
+        result.warnings.push(
+          `statsig.targetingGateID '${targetingGate}' is not declared in 'gates'; it must already exist in Statsig`
+        );
+      }
+
       if (result.errors.length === 0) {
         result.checks.contract = true;
         console.log('✅ Contract validation passed');
@@ -119,6 +186,45 @@ export class PreflightValidator {
     }
   }
 
+  /**
+   * Warn when metadata.estimatedDuration is shorter than the power analysis requires
+   */
+  private async checkEstimatedDuration(experimentKey: string, result: PreflightResult): Promise<void> {
+    const contractPath = findContractFile(this.projectRoot, experimentKey);
+    const eventLog = findDefaultEventLog(this.projectRoot);
+    if (!contractPath || !eventLog) {
+      console.log('⏭️  Skipping duration check (no event log; see `experiment power`)');
+      return;
+    }
+
+    console.log('⏱️  Checking estimated duration...');
+    try {
+      const { contract } = loadContractFile(this.projectRoot, contractPath);
+      const estimated = contract.metadata.estimatedDuration;
+      if (estimated && parseDurationDays(estimated) === undefined) {
+        result.warnings.push(`metadata.estimatedDuration '${estimated}' is not a duration like '14 days' or '2 weeks'`);
+        return;
+      }
+
+      const plan = planExperimentPower(contract, powerOptionsFromEvents(contract, readEventLog(eventLog).events, eventLog));
+      if (plan.requiredDays === undefined) {
+        return;
+      }
+      if (plan.estimatedDays === undefined) {
+        result.warnings.push(`No metadata.estimatedDuration; the hypothesized lift needs ~${plan.requiredDays} day(s)`);
+      } else if (plan.estimatedDays < plan.requiredDays) {
+        result.warnings.push(
+          `metadata.estimatedDuration (${estimated}) is too short: ~${plan.requiredDays} day(s) needed for ` +
+          `${Math.round(plan.power * 100)}% power (run 'npm run experiment power ${experimentKey}')`
+        );
+      } else {
+        console.log(`✅ Estimated duration covers the ~${plan.requiredDays} day(s) required`);
+      }
+    } catch (error) {
+      result.warnings.push(`Duration check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Validate environment configuration
    */
@@ -152,10 +258,11 @@ export class PreflightValidator {
     console.log('💻 Validating code changes...');
 
     try {
-      const contractPath = join(this.projectRoot, 'contract', `${experimentKey}.json`);
-      const contractContent = readFileSync(contractPath, 'utf-8');
-      const contractData = JSON.parse(contractContent);
-      const contract = validateContract(contractData);
+      const contractPath = findContractFile(this.projectRoot, experimentKey);
+      if (!contractPath) {
+        return;
+      }
+      const { contract } = loadContractFile(this.projectRoot, contractPath);
 
       // Check if target files exist
       for (const codeChange of contract.codeChanges) {
@@ -196,6 +303,85 @@ export class PreflightValidator {
     }
   }
 
+  /**
+   * Fail when another active contract changes the same file or component
+   * without sharing this experiment's layer
+   */
+  private async validateLayers(experimentKey: string, result: PreflightResult): Promise<void> {
+    console.log('🧱 Validating layer isolation...');
+
+    try {
+      const contractPath = findContractFile(this.projectRoot, experimentKey);
+      if (!contractPath) {
+        return;
+      }
+      const { contract } = loadContractFile(this.projectRoot, contractPath);
+      const errorCount = result.errors.length;
+      const statsigStatuses = await this.loadStatsigStatuses(result);
+
+      listContractFiles(this.projectRoot)
+        .filter(file => file !== contractPath)
+        .forEach(file => {
+          let other: ExperimentContract;
+          try {
+            other = loadContractFile(this.projectRoot, file).contract;
+          } catch {
+            result.warnings.push(`Skipped invalid contract when checking layers: ${file}`);
+            return;
+          }
+
+          if (!isExperimentActive(this.projectRoot, other.experimentKey, statsigStatuses)) {
+            return;
+          }
+
+          const overlaps = findOverlappingTargets(contract, other);
+          if (overlaps.length > 0 && (!contract.layer || contract.layer !== other.layer)) {
+            result.errors.push(
+              `${experimentKey} and ${other.experimentKey} both modify ${overlaps.join(', ')} but are not in the same layer ` +
+              `(${contract.layer || 'none'} vs ${other.layer || 'none'}); set the same "layer" in both contracts`
+            );
+          }
+        });
+
+      if (result.errors.length === errorCount) {
+        result.checks.layers = true;
+        console.log(contract.layer
+          ? `✅ Layer isolation passed (layer: ${contract.layer})`
+          : '✅ Layer isolation passed');
+      }
+    } catch (error) {
+      result.errors.push(`Layer validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Experiment statuses by key from Statsig; empty (local state only) when
+   * Statsig cannot be reached
+   */
+  private async loadStatsigStatuses(result: PreflightResult): Promise<Record<string, string>> {
+    const statuses: Record<string, string> = {};
+
+    try {
+      const response = await getStatsigBackend().listExperiments();
+      if (!response.success) {
+        throw new Error(response.error);
+      }
+      (Array.isArray(response.data) ? response.data : []).forEach((experiment: Record<string, any>) => {
+        const key = experiment.id || experiment.name;
+        if (typeof key === 'string' && typeof experiment.status === 'string') {
+          statuses[key] = experiment.status;
+        }
+      });
+    } catch (error) {
+      result.warnings.push(
+        `Layer check used local run state only; Statsig experiments could not be listed: ` +
+          `${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    return statuses;
+  }
+
   /**
    * Validate Statsig connectivity
    */
@@ -203,8 +389,8 @@ export class PreflightValidator {
     console.log('🔗 Testing Statsig connectivity...');
 
     try {
-      // Test MCP client connectivity
-      const testResult = await mcpClient.listExperiments();
+      // Test backend connectivity
+      const testResult = await getStatsigBackend().listExperiments();
       
       if (testResult.success) {
         result.checks.statsigConnectivity = true;
@@ -301,6 +487,7 @@ export class PreflightValidator {
     console.log(`  📋 Contract: ${checks.contract ? '✅' : '❌'}`);
     console.log(`  🔧 Environment: ${checks.environment ? '✅' : '❌'}`);
     console.log(`  💻 Code Changes: ${checks.codeChanges ? '✅' : '❌'}`);
+    console.log(`  🧱 Layers: ${checks.layers ? '✅' : '❌'}`);
     console.log(`  🔗 Statsig Connectivity: ${checks.statsigConnectivity ? '✅' : '❌'}`);
     console.log(`  🌿 Branch State: ${checks.branchState ? '✅' : '❌'}`);
     console.log(`  🚀 Deployment: ${checks.deployment ? '✅' : '❌'}`);
@@ -353,6 +540,7 @@ async function main(): Promise<void> {
 
   try {
     const result = await runPreflight(experimentKey);
+    await getStatsigBackend().close();
     process.exit(result.success ? 0 : 1);
   } catch (error) {
     console.error('❌ Preflight validation failed:', error);
@@ -0,0 +1,103 @@
+/**
+ * Gradual Rollout
+ * Scheduled allocation steps and the state kept by `experiment rollout tick`
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type { ExperimentContract, RolloutSchedule } from './contract-schema.js';
+
+export type RolloutStep = RolloutSchedule['steps'][number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Allocation change applied by a tick
+ */
+export interface RolloutTick {
+  at: string;
+  day: number;
+  from?: number;
+  allocation: number;
+}
+
+/**
+ * Persisted rollout state
+ */
+export interface RolloutState {
+  experimentKey: string;
+  /** Day 1 of the schedule, when not fixed by rolloutSchedule.startDate */
+  startedAt?: string;
+  ticks: RolloutTick[];
+}
+
+/**
+ * Schedule day for a moment in time (the start is day 1)
+ */
+export function rolloutDay(startedAt: string, now: Date): number {
+  return Math.floor((now.getTime() - Date.parse(startedAt)) / DAY_MS) + 1;
+}
+
+/**
+ * Date on which a schedule day begins
+ */
+export function rolloutDayStart(startedAt: string, day: number): Date {
+  return new Date(Date.parse(startedAt) + (day - 1) * DAY_MS);
+}
+
+/**
+ * Step in effect on a day (undefined before the first step)
+ */
+export function scheduledStep(schedule: RolloutSchedule, day: number): RolloutStep | undefined {
+  return schedule.steps.filter(step => step.day <= day).pop();
+}
+
+/**
+ * First step after a day (undefined once the schedule is complete)
+ */
+export function nextStep(schedule: RolloutSchedule, day: number): RolloutStep | undefined {
+  return schedule.steps.filter(step => step.day > day)[0];
+}
+
+/**
+ * Allocation an experiment is created with (the first step when a schedule is set)
+ */
+export function initialAllocation(contract: ExperimentContract): number {
+  return contract.rolloutSchedule ? contract.rolloutSchedule.steps[0].allocation : contract.allocation;
+}
+
+/**
+ * Schedule as console lines, marking the step in effect on `day`
+ */
+export function formatRolloutSchedule(schedule: RolloutSchedule, day?: number, startedAt?: string): string[] {
+  const current = day !== undefined ? scheduledStep(schedule, day) : undefined;
+
+  return schedule.steps.map(step => {
+    const date = startedAt ? ` (${rolloutDayStart(startedAt, step.day).toISOString().slice(0, 10)})` : '';
+    return `${step === current ? '▶' : ' '} day ${step.day}${date}: ${step.allocation}%`;
+  });
+}
+
+/**
+ * State file location for an experiment
+ */
+export function rolloutStatePath(projectRoot: string, experimentKey: string): string {
+  return join(projectRoot, '.experiments', experimentKey, 'rollout.json');
+}
+
+/**
+ * Load the rollout state (empty before the first tick)
+ */
+export function loadRolloutState(projectRoot: string, experimentKey: string): RolloutState {
+  const filePath = rolloutStatePath(projectRoot, experimentKey);
+  return existsSync(filePath) ? JSON.parse(readFileSync(filePath, 'utf-8')) : { experimentKey, ticks: [] };
+}
+
+/**
+ * Persist the rollout state
+ */
+export function saveRolloutState(projectRoot: string, state: RolloutState): void {
+  const filePath = rolloutStatePath(projectRoot, state.experimentKey);
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, `${JSON.stringify(state, null, 2)}\n`);
+}
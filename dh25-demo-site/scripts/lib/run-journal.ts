@@ -0,0 +1,247 @@
+/**
+ * Experiment Run Journal
+ * Records each workflow step per experiment so runs can be resumed safely
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+/**
+ * Workflow steps, in execution order
+ */
+export const JOURNAL_STEPS = [
+  'branch',
+  'code',
+  'commit',
+  'deploy',
+  'gate',
+  'create',
+  'targeting',
+  'pr',
+  'start',
+] as const;
+
+export type JournalStep = typeof JOURNAL_STEPS[number];
+
+export type StepStatus = 'pending' | 'completed' | 'failed' | 'skipped';
+
+export type RunStatus = 'in_progress' | 'completed' | 'failed' | 'rolled_back';
+
+/**
+ * State of a single step
+ */
+export interface JournalStepRecord {
+  status: StepStatus;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+  output?: Record<string, any>;
+}
+
+/**
+ * Persisted journal contents
+ */
+export interface RunJournalData {
+  experimentKey: string;
+  status: RunStatus;
+  createdAt: string;
+  updatedAt: string;
+  attempts: number;
+  steps: Record<JournalStep, JournalStepRecord>;
+}
+
+/**
+ * Per-experiment run journal stored in .experiments/<key>/journal.json
+ */
+export class RunJournal {
+  private filePath: string;
+  private data: RunJournalData;
+
+  private constructor(filePath: string, data: RunJournalData) {
+    this.filePath = filePath;
+    this.data = data;
+  }
+
+  /**
+   * Journal file location for an experiment
+   */
+  static pathFor(projectRoot: string, experimentKey: string): string {
+    return join(projectRoot, '.experiments', experimentKey, 'journal.json');
+  }
+
+  /**
+   * Load an existing journal (null when the experiment was never run); steps
+   * added since it was written start out pending
+   */
+  static load(projectRoot: string, experimentKey: string): RunJournal | null {
+    const filePath = RunJournal.pathFor(projectRoot, experimentKey);
+    if (!existsSync(filePath)) {
+      return null;
+    }
+
+    const data: RunJournalData = JSON.parse(readFileSync(filePath, 'utf-8'));
+    JOURNAL_STEPS.forEach(step => {
+      data.steps[step] = data.steps[step] || { status: 'pending' };
+    });
+    return new RunJournal(filePath, data);
+  }
+
+  /**
+   * Create a fresh journal with every step pending
+   */
+  static create(projectRoot: string, experimentKey: string): RunJournal {
+    const now = new Date().toISOString();
+    const steps = {} as Record<JournalStep, JournalStepRecord>;
+    JOURNAL_STEPS.forEach(step => {
+      steps[step] = { status: 'pending' };
+    });
+
+    const journal = new RunJournal(RunJournal.pathFor(projectRoot, experimentKey), {
+      experimentKey,
+      status: 'in_progress',
+      createdAt: now,
+      updatedAt: now,
+      attempts: 0,
+      steps,
+    });
+    journal.save();
+    return journal;
+  }
+
+  get status(): RunStatus {
+    return this.data.status;
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  /**
+   * True once every step is completed or skipped
+   */
+  isComplete(): boolean {
+    return this.data.status === 'completed';
+  }
+
+  /**
+   * True when a step does not need to run again
+   */
+  isStepDone(step: JournalStep): boolean {
+    const status = this.data.steps[step].status;
+    return status === 'completed' || status === 'skipped';
+  }
+
+  /**
+   * Step record (status, timestamps, output)
+   */
+  getStep(step: JournalStep): JournalStepRecord {
+    return this.data.steps[step];
+  }
+
+  /**
+   * Output recorded by a completed step
+   */
+  getOutput(step: JournalStep): Record<string, any> {
+    return this.data.steps[step].output || {};
+  }
+
+  /**
+   * Mark the start of a new attempt
+   */
+  beginAttempt(): void {
+    this.data.attempts += 1;
+    this.data.status = 'in_progress';
+    this.save();
+  }
+
+  /**
+   * Run a step unless it already completed; records its output or error
+   */
+  async runStep(
+    step: JournalStep,
+    action: () => Promise<Record<string, any> | void>
+  ): Promise<Record<string, any>> {
+    if (this.isStepDone(step)) {
+      console.log(`⏭️  Step '${step}' already ${this.data.steps[step].status}, skipping`);
+      return this.getOutput(step);
+    }
+
+    this.data.steps[step] = { status: 'pending', startedAt: new Date().toISOString() };
+    this.save();
+
+    try {
+      const output = (await action()) || {};
+      this.data.steps[step] = {
+        ...this.data.steps[step],
+        status: 'completed',
+        completedAt: new Date().toISOString(),
+        output,
+      };
+      this.save();
+      return output;
+    } catch (error) {
+      this.data.steps[step] = {
+        ...this.data.steps[step],
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+      this.save();
+      throw error;
+    }
+  }
+
+  /**
+   * Record a step as intentionally not executed
+   */
+  skipStep(step: JournalStep, reason: string): void {
+    if (this.isStepDone(step)) return;
+
+    this.data.steps[step] = {
+      status: 'skipped',
+      completedAt: new Date().toISOString(),
+      output: { reason },
+    };
+    this.save();
+  }
+
+  /**
+   * Mark the run as finished
+   */
+  complete(): void {
+    this.data.status = 'completed';
+    this.save();
+  }
+
+  /**
+   * Mark the run as failed
+   */
+  fail(): void {
+    this.data.status = 'failed';
+    this.save();
+  }
+
+  /**
+   * Mark the run as undone by `experiment rollback`
+   */
+  markRolledBack(): void {
+    this.data.status = 'rolled_back';
+    this.save();
+  }
+
+  /**
+   * Human-readable step summary
+   */
+  describe(): string[] {
+    return JOURNAL_STEPS.map(step => {
+      const record = this.data.steps[step];
+      const icon = { completed: '✅', skipped: '⏭️ ', failed: '❌', pending: '⏳' }[record.status];
+      return `${icon} ${step}${record.error ? ` — ${record.error}` : ''}`;
+    });
+  }
+
+  private save(): void {
+    this.data.updatedAt = new Date().toISOString();
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, `${JSON.stringify(this.data, null, 2)}\n`);
+  }
+}
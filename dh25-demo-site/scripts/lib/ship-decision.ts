@@ -0,0 +1,49 @@
+/**
+ * Ship Decision Record
+ * Tracks `experiment ship` progress so a decision can be completed across runs
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+/**
+ * Persisted ship decision
+ */
+export interface ShipDecision {
+  experimentKey: string;
+  /** Shipped variant key */
+  variant: string;
+  variantName: string;
+  reason: string;
+  decidedAt: string;
+  /** Commit that made the variant the default */
+  commit?: string;
+  prNumber?: number;
+  prUrl?: string;
+  statsigDecided?: boolean;
+  branchDeleted?: boolean;
+}
+
+/**
+ * Decision file location for an experiment
+ */
+export function shipDecisionPath(projectRoot: string, experimentKey: string): string {
+  return join(projectRoot, '.experiments', experimentKey, 'decision.json');
+}
+
+/**
+ * Load the decision (null when the experiment was never shipped)
+ */
+export function loadShipDecision(projectRoot: string, experimentKey: string): ShipDecision | null {
+  const filePath = shipDecisionPath(projectRoot, experimentKey);
+  return existsSync(filePath) ? JSON.parse(readFileSync(filePath, 'utf-8')) : null;
+}
+
+/**
+ * Persist the decision
+ */
+export function saveShipDecision(projectRoot: string, decision: ShipDecision): void {
+  const filePath = shipDecisionPath(projectRoot, decision.experimentKey);
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, `${JSON.stringify(decision, null, 2)}\n`);
+}
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  bonferroniConfidenceLevel,
+  compareGroups,
+  criticalZ,
+  normalCdf,
+  normalQuantile,
+  studentTCdf,
+  studentTQuantile,
+  welchDegreesOfFreedom,
+} from './statistics.js';
+
+/**
+ * Assert |actual - expected| <= tolerance
+ */
+function assertClose(actual: number, expected: number, tolerance: number, label = '') {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${label} expected ${expected}, got ${actual}`);
+}
+
+test('normal distribution matches table values', () => {
+  assertClose(normalCdf(1.96), 0.9750021, 1e-6, 'Φ(1.96)');
+  assertClose(normalCdf(-1), 0.1586553, 1e-6, 'Φ(-1)');
+  assertClose(normalCdf(0), 0.5, 1e-9, 'Φ(0)');
+  assertClose(normalQuantile(0.975), 1.959964, 1e-6, 'z(0.975)');
+  assertClose(normalQuantile(0.01), -2.326348, 1e-6, 'z(0.01)');
+  assertClose(criticalZ(99), 2.575829, 1e-6, 'critical z at 99%');
+  assert.throws(() => normalQuantile(1));
+});
+
+test('Student t distribution matches closed forms and table values', () => {
+  // df = 1 is Cauchy: F(1) = 3/4; df = 2: F(t) = 1/2 + t / (2 sqrt(2 + t²))
+  assertClose(studentTCdf(1, 1), 0.75, 1e-9, 'F(1; 1)');
+  assertClose(studentTCdf(2, 2), 0.5 + 2 / (2 * Math.sqrt(6)), 1e-9, 'F(2; 2)');
+  assertClose(studentTCdf(-2, 2), 0.5 - 2 / (2 * Math.sqrt(6)), 1e-9, 'F(-2; 2)');
+  assertClose(studentTQuantile(0.975, 10), 2.228139, 1e-6, 't(0.975; 10)');
+  assertClose(studentTQuantile(0.975, 5), 2.570582, 1e-6, 't(0.975; 5)');
+  assertClose(studentTQuantile(0.025, 5), -2.570582, 1e-6, 't(0.025; 5)');
+  assertClose(studentTCdf(1.96, Infinity), normalCdf(1.96), 1e-12, 'F(1.96; ∞)');
+});
+
+test('Bonferroni splits alpha across comparisons', () => {
+  assertClose(bonferroniConfidenceLevel(95, 5), 99, 1e-9);
+  assertClose(bonferroniConfidenceLevel(95, 0), 95, 1e-9);
+});
+
+test('z-test gives the lift, p-value and delta-method interval', () => {
+  const control = { units: 1000, mean: 10, variance: 4 };
+  const test = { units: 1000, mean: 10.5, variance: 4 };
+  const result = compareGroups(control, test, 95);
+
+  assertClose(result.absoluteDelta, 0.5, 1e-12, 'delta');
+  assertClose(result.relativeLift, 0.05, 1e-12, 'lift');
+  // z = 0.5 / sqrt(4/1000 + 4/1000)
+  assertClose(result.zScore, 5.590170, 1e-6, 'z');
+  assertClose(result.pValue, 2.268475e-8, 1e-10, 'p');
+  // Var(T/C) ≈ Var(T)/C² + T²·Var(C)/C⁴ = 0.00004 + 0.0000441
+  assertClose(result.ciUpper - result.relativeLift, 0.017974, 1e-6, 'margin');
+  assertClose(result.relativeLift - result.ciLower, 0.017974, 1e-6, 'margin');
+  assert.equal(result.degreesOfFreedom, undefined);
+});
+
+test('Welch t-test uses Welch–Satterthwaite degrees of freedom', () => {
+  const control = { units: 10, mean: 5, variance: 1 };
+  const test = { units: 20, mean: 5.8, variance: 4 };
+
+  // (0.1 + 0.2)² / (0.1²/9 + 0.2²/19)
+  assertClose(welchDegreesOfFreedom(control, test), 27.981818, 1e-6, 'df');
+
+  const result = compareGroups(control, test, 95, 'welch');
+  assertClose(result.degreesOfFreedom!, 27.981818, 1e-6, 'df');
+  assertClose(result.zScore, 1.460593, 1e-6, 't');
+  assertClose(result.pValue, 0.155265, 1e-5, 'p');
+  // t(0.975; 27.98) ≈ 2.0484 times sqrt(0.2/25 + 5.8²·0.1/5⁴)
+  assertClose(result.ciUpper - result.relativeLift, 0.23697, 1e-3, 'margin');
+  assert.ok(result.pValue > compareGroups(control, test, 95, 'z').pValue, 'Welch is more conservative than z');
+});
+
+test('compareGroups handles degenerate groups', () => {
+  const flat = { units: 100, mean: 1, variance: 0 };
+  assert.equal(compareGroups(flat, flat).pValue, 1);
+  assert.equal(compareGroups(flat, { ...flat, mean: 2 }).pValue, 0);
+  assert.ok(isNaN(compareGroups({ ...flat, mean: 0 }, flat).relativeLift));
+  assert.throws(() => compareGroups({ ...flat, units: 0 }, flat), /at least one unit/);
+});
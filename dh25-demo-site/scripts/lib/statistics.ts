@@ -0,0 +1,267 @@
+/**
+ * Experiment Statistics
+ * z-test and Welch t-test comparisons between two experiment groups, and
+ * always-valid p-values for sequential monitoring
+ */
+
+/**
+ * Summary statistics for one group on one metric
+ */
+export interface GroupSummary {
+  /** Number of units (users) in the group */
+  units: number;
+  /** Mean metric value per unit */
+  mean: number;
+  /** Variance of the per-unit metric value */
+  variance: number;
+}
+
+/**
+ * Test vs control comparison on one metric
+ */
+export interface GroupComparison {
+  absoluteDelta: number;
+  /** (test - control) / control, as a fraction */
+  relativeLift: number;
+  /** Confidence interval of the relative lift, as fractions */
+  ciLower: number;
+  ciUpper: number;
+  confidenceLevel: number;
+  /** Test statistic (z, or t for Welch) */
+  zScore: number;
+  /** Two-sided p-value */
+  pValue: number;
+  /** Welch–Satterthwaite degrees of freedom (Welch test only) */
+  degreesOfFreedom?: number;
+}
+
+/**
+ * Test used to compare group means
+ */
+export type ComparisonMethod = 'z' | 'welch';
+
+/**
+ * Standard normal cumulative distribution function
+ */
+export function normalCdf(z: number): number {
+  // Abramowitz & Stegun 7.1.26 on erf(|z| / sqrt(2)), max error 1.5e-7
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) {
+    throw new Error(`Normal quantile is only defined for 0 < p < 1 (got ${p})`);
+  }
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.3577518672690, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ */
+function logGamma(x: number): number {
+  const coefficients = [76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  coefficients.forEach(coefficient => {
+    series += coefficient / ++y;
+  });
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+}
+
+/**
+ * Continued fraction for the incomplete beta function (Numerical Recipes betacf)
+ */
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let h = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a - 1 + m2) * (a + m2));
+    d = 1 / (Math.abs(1 + aa * d) < tiny ? tiny : 1 + aa * d);
+    c = Math.abs(1 + aa / c) < tiny ? tiny : 1 + aa / c;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + 1 + m2));
+    d = 1 / (Math.abs(1 + aa * d) < tiny ? tiny : 1 + aa * d);
+    c = Math.abs(1 + aa / c) < tiny ? tiny : 1 + aa / c;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 3e-12) break;
+  }
+
+  return h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+/**
+ * Student's t cumulative distribution function
+ */
+export function studentTCdf(t: number, degreesOfFreedom: number): number {
+  if (!isFinite(degreesOfFreedom) || degreesOfFreedom > 1e7) {
+    return normalCdf(t);
+  }
+  const tail = incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5) / 2;
+  return t >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Inverse of the Student's t CDF (bisection; accurate to ~1e-10)
+ */
+export function studentTQuantile(p: number, degreesOfFreedom: number): number {
+  if (p <= 0 || p >= 1) {
+    throw new Error(`t quantile is only defined for 0 < p < 1 (got ${p})`);
+  }
+  if (p < 0.5) {
+    return -studentTQuantile(1 - p, degreesOfFreedom);
+  }
+
+  let low = 0;
+  let high = Math.max(1, normalQuantile(p) * 2);
+  while (studentTCdf(high, degreesOfFreedom) < p) high *= 2;
+
+  for (let i = 0; i < 200 && high - low > 1e-10; i++) {
+    const mid = (low + high) / 2;
+    if (studentTCdf(mid, degreesOfFreedom) < p) low = mid; else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Welch–Satterthwaite degrees of freedom for two groups
+ */
+export function welchDegreesOfFreedom(control: GroupSummary, test: GroupSummary): number {
+  const controlTerm = control.variance / control.units;
+  const testTerm = test.variance / test.units;
+  const denominator =
+    (control.units > 1 ? controlTerm ** 2 / (control.units - 1) : 0) +
+    (test.units > 1 ? testTerm ** 2 / (test.units - 1) : 0);
+  return denominator > 0 ? (controlTerm + testTerm) ** 2 / denominator : Infinity;
+}
+
+/**
+ * Two-sided critical z value for a confidence level given in percent (e.g. 95)
+ */
+export function criticalZ(confidenceLevel: number): number {
+  return normalQuantile(1 - (1 - confidenceLevel / 100) / 2);
+}
+
+/**
+ * Confidence level (percent) after splitting alpha across comparisons
+ */
+export function bonferroniConfidenceLevel(confidenceLevel: number, comparisons: number): number {
+  const alpha = (1 - confidenceLevel / 100) / Math.max(1, comparisons);
+  return (1 - alpha) * 100;
+}
+
+/**
+ * Compare test against control on the difference of means, with a z-test or
+ * Welch's t-test; the relative lift interval uses the delta method for
+ * test/control - 1
+ */
+export function compareGroups(
+  control: GroupSummary,
+  test: GroupSummary,
+  confidenceLevel: number = 95,
+  method: ComparisonMethod = 'z'
+): GroupComparison {
+  if (control.units <= 0 || test.units <= 0) {
+    throw new Error('Both groups need at least one unit');
+  }
+
+  const controlVarianceOfMean = control.variance / control.units;
+  const testVarianceOfMean = test.variance / test.units;
+  const absoluteDelta = test.mean - control.mean;
+  const standardError = Math.sqrt(controlVarianceOfMean + testVarianceOfMean);
+  const zScore = standardError > 0 ? absoluteDelta / standardError : 0;
+  const degreesOfFreedom = method === 'welch' ? welchDegreesOfFreedom(control, test) : Infinity;
+  const tailProbability = (statistic: number) => method === 'welch'
+    ? 1 - studentTCdf(Math.abs(statistic), degreesOfFreedom)
+    : 1 - normalCdf(Math.abs(statistic));
+  const pValue = standardError > 0 ? 2 * tailProbability(zScore) : (absoluteDelta === 0 ? 1 : 0);
+  const critical = method === 'welch' && isFinite(degreesOfFreedom)
+    ? studentTQuantile(1 - (1 - confidenceLevel / 100) / 2, degreesOfFreedom)
+    : criticalZ(confidenceLevel);
+
+  const relativeLift = control.mean !== 0 ? absoluteDelta / control.mean : NaN;
+  const ratioVariance = control.mean !== 0
+    ? testVarianceOfMean / control.mean ** 2 + (test.mean ** 2 * controlVarianceOfMean) / control.mean ** 4
+    : NaN;
+  const margin = critical * Math.sqrt(ratioVariance);
+
+  return {
+    absoluteDelta,
+    relativeLift,
+    ciLower: relativeLift - margin,
+    ciUpper: relativeLift + margin,
+    confidenceLevel,
+    zScore,
+    pValue: Math.min(1, Math.max(0, pValue)),
+    ...(method === 'welch' ? { degreesOfFreedom } : {}),
+  };
+}
+
+/**
+ * Always-valid p-value for one look of a mixture sequential probability ratio
+ * test (mSPRT) of H0: test.mean - control.mean = nullDelta, with a normal
+ * N(nullDelta, mixingVariance) mixture over the alternative. Taking the running
+ * minimum across looks keeps the type I error at alpha however often results
+ * are checked.
+ */
+export function msprtPValue(
+  control: GroupSummary,
+  test: GroupSummary,
+  nullDelta: number,
+  mixingVariance: number
+): number {
+  const variance = control.variance / control.units + test.variance / test.units;
+  if (!(variance > 0) || !(mixingVariance > 0)) return 1;
+
+  const deviation = test.mean - control.mean - nullDelta;
+  const logLikelihoodRatio = 0.5 * Math.log(variance / (variance + mixingVariance)) +
+    (mixingVariance * deviation ** 2) / (2 * variance * (variance + mixingVariance));
+  return Math.min(1, Math.exp(-logLikelihoodRatio));
+}
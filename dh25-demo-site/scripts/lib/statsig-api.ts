@@ -3,55 +3,38 @@
  * Provides a clean interface for Statsig Console API operations
  */
 
-import type { ExperimentContract, TargetingRule, PrimaryMetric } from './contract-schema.js';
-import { mcpClient, type MCPResponse } from './mcp-client.js';
+import type { ExperimentContract, FeatureGate, TargetingCondition, TargetingRule, PrimaryMetric } from './contract-schema.js';
+import {
+  getStatsigBackend,
+  type StatsigBackend,
+  type StatsigExperimentConfig,
+  type StatsigGateConfig,
+  type StatsigTargetingRule,
+} from './statsig-backend.js';
+import { variantGroupSizes } from './variant-split.js';
 
 /**
- * Statsig experiment configuration
- */
-export interface StatsigExperimentConfig {
-  id: string;
-  name: string;
-  description: string;
-  hypothesis: string;
-  groups: Array<{
-    name: string;
-    id?: string;
-    size: number;
-    parameterValues: Record<string, any>;
-    disabled?: boolean;
-    description?: string;
-  }>;
-  primaryMetrics: Array<{
-    name: string;
-    type: string;
-    direction?: 'increase' | 'decrease';
-    hypothesizedValue?: number;
-  }>;
-  secondaryMetrics?: Array<{
-    name: string;
-    type: string;
-    direction?: 'increase' | 'decrease';
-    hypothesizedValue?: number;
-  }>;
-  idType: string;
-  targetingGateID?: string;
-  tags?: string[];
-}
-
-/**
- * Statsig API wrapper for MCP tools
+ * Statsig API wrapper over a pluggable backend
  */
 export class StatsigAPI {
+  private backend: StatsigBackend;
+
+  constructor(backend: StatsigBackend = getStatsigBackend()) {
+    this.backend = backend;
+  }
+
   /**
    * Create experiment from contract
    */
   async createExperiment(contract: ExperimentContract): Promise<string> {
     try {
       const config = this.buildExperimentConfig(contract);
+
+      if (config.layerID) {
+        await this.ensureLayer(config.layerID, contract);
+      }
       
-      // Use MCP client to create experiment
-      const result = await mcpClient.createExperiment(config);
+      const result = await this.backend.createExperiment(config);
 
       if (result.success && result.data?.id) {
         console.log(`✅ Created experiment: ${config.name} (ID: ${result.data.id})`);
@@ -65,6 +48,29 @@ export class StatsigAPI {
     }
   }
 
+  /**
+   * Create the contract's layer unless it already exists
+   */
+  private async ensureLayer(layerId: string, contract: ExperimentContract): Promise<void> {
+    const existing = await this.backend.getLayer(layerId);
+    if (existing.success) {
+      console.log(`✅ Using layer: ${layerId}`);
+      return;
+    }
+
+    const result = await this.backend.createLayer({
+      id: layerId,
+      name: layerId,
+      description: `Mutually exclusive experiments (created for ${contract.experimentKey})`,
+      idType: contract.statsig.idType,
+    });
+
+    if (!result.success) {
+      throw new Error(`Failed to create layer ${layerId}: ${result.error}`);
+    }
+    console.log(`✅ Created layer: ${layerId}`);
+  }
+
   /**
    * Update experiment with targeting rules
    */
@@ -75,7 +81,7 @@ export class StatsigAPI {
     try {
       const targetingConfig = this.buildTargetingConfig(contract);
       
-      const result = await mcpClient.updateExperiment(experimentId, targetingConfig);
+      const result = await this.backend.updateExperiment(experimentId, targetingConfig);
 
       if (result.success) {
         console.log(`✅ Updated experiment targeting: ${experimentId}`);
@@ -88,12 +94,70 @@ export class StatsigAPI {
     }
   }
 
+  /**
+   * Change only the allocation, keeping everything else as it is in Statsig
+   */
+  async updateAllocation(experimentId: string, allocation: number): Promise<void> {
+    const experiment = await this.getExperiment(experimentId);
+    const result = await this.backend.updateExperiment(experimentId, { ...experiment, allocation });
+
+    if (!result.success) {
+      throw new Error(`Failed to update allocation: ${result.error}`);
+    }
+  }
+
+  /**
+   * Configuration an experiment has once created and targeted from the contract
+   */
+  buildContractConfig(contract: ExperimentContract): Record<string, any> {
+    return { ...this.buildExperimentConfig(contract), ...this.buildTargetingConfig(contract) };
+  }
+
+  /**
+   * Overwrite the experiment's groups, metrics and targeting with the contract's
+   * (the layer is fixed at creation and is left alone)
+   */
+  async syncExperiment(experimentId: string, contract: ExperimentContract): Promise<void> {
+    const { id: _id, layerID: _layerID, ...config } = this.buildContractConfig(contract);
+    const result = await this.backend.updateExperiment(experimentId, config);
+
+    if (!result.success) {
+      throw new Error(`Failed to sync experiment: ${result.error}`);
+    }
+    console.log(`✅ Synced experiment with contract: ${experimentId}`);
+  }
+
+  /**
+   * Gate as stored in Statsig (null when it does not exist)
+   */
+  async getGate(gateId: string): Promise<Record<string, any> | null> {
+    const result = await this.backend.getGate(gateId);
+    return result.success && result.data ? result.data : null;
+  }
+
+  /**
+   * Create a contract gate, or overwrite its rules when it already exists
+   */
+  async upsertGate(gate: FeatureGate): Promise<'created' | 'updated'> {
+    const config = this.buildGateConfig(gate);
+    const existing = await this.backend.getGate(gate.name);
+    const result = existing.success
+      ? await this.backend.updateGate(gate.name, config)
+      : await this.backend.createGate(config);
+
+    if (!result.success) {
+      throw new Error(`Failed to ${existing.success ? 'update' : 'create'} gate ${gate.name}: ${result.error}`);
+    }
+    console.log(`✅ ${existing.success ? 'Updated' : 'Created'} gate: ${gate.name}`);
+    return existing.success ? 'updated' : 'created';
+  }
+
   /**
    * Start experiment
    */
   async startExperiment(experimentId: string): Promise<void> {
     try {
-      const result = await mcpClient.startExperiment(experimentId);
+      const result = await this.backend.startExperiment(experimentId);
 
       if (result.success) {
         console.log(`✅ Started experiment: ${experimentId}`);
@@ -111,7 +175,7 @@ export class StatsigAPI {
    */
   async stopExperiment(experimentId: string): Promise<void> {
     try {
-      const result = await mcpClient.stopExperiment(experimentId);
+      const result = await this.backend.stopExperiment(experimentId);
 
       if (result.success) {
         console.log(`✅ Stopped experiment: ${experimentId}`);
@@ -124,12 +188,78 @@ export class StatsigAPI {
     }
   }
 
+  /**
+   * Archive experiment
+   */
+  async archiveExperiment(experimentId: string): Promise<void> {
+    try {
+      const result = await this.backend.archiveExperiment(experimentId);
+
+      if (result.success) {
+        console.log(`✅ Archived experiment: ${experimentId}`);
+      } else {
+        throw new Error(`Failed to archive experiment: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to archive experiment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Ship a group (by variant key) and mark the experiment as decided
+   */
+  async makeDecision(experimentId: string, groupId: string, reason: string): Promise<void> {
+    try {
+      const result = await this.backend.makeDecision(experimentId, groupId, reason);
+
+      if (result.success) {
+        console.log(`✅ Marked experiment as decided: ${experimentId} (${groupId})`);
+      } else {
+        throw new Error(`Failed to make decision: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to make decision:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the experiment as stored in Statsig
+   */
+  async getExperiment(experimentId: string): Promise<Record<string, any>> {
+    try {
+      const result = await this.backend.getExperimentDetails(experimentId);
+
+      if (result.success && result.data) {
+        return result.data;
+      } else {
+        throw new Error(`Failed to get experiment: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to get experiment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List all experiments in the project
+   */
+  async listExperiments(): Promise<Array<Record<string, any>>> {
+    const result = await this.backend.listExperiments();
+
+    if (!result.success) {
+      throw new Error(`Failed to list experiments: ${result.error}`);
+    }
+    return Array.isArray(result.data) ? result.data : [];
+  }
+
   /**
    * Get experiment status
    */
   async getExperimentStatus(experimentId: string): Promise<string> {
     try {
-      const result = await mcpClient.getExperimentDetails(experimentId);
+      const result = await this.backend.getExperimentDetails(experimentId);
 
       if (result.success && result.data) {
         return result.data.status || 'unknown';
@@ -142,19 +272,35 @@ export class StatsigAPI {
     }
   }
 
+  /**
+   * Get pulse results of one test group against the control group
+   */
+  async getExperimentResults(experimentId: string, controlGroup: string, testGroup: string): Promise<any> {
+    try {
+      const result = await this.backend.getExperimentResults(experimentId, controlGroup, testGroup);
+
+      if (result.success) {
+        return result.data;
+      } else {
+        throw new Error(`Failed to get experiment results: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to get experiment results:', error);
+      throw error;
+    }
+  }
+
   /**
    * Build experiment configuration from contract
    */
-  private buildExperimentConfig(contract: ExperimentContract): StatsigExperimentConfig {
-    const variants = Object.entries(contract.variants);
-    const totalPercentage = variants.reduce((sum, [, variant]) => sum + variant.passPercentage, 0);
-    
-    // Normalize percentages if they don't add up to 100
-    const normalizedVariants = variants.map(([name, variant]) => ({
+  buildExperimentConfig(contract: ExperimentContract): StatsigExperimentConfig {
+    const sizes = variantGroupSizes(contract.variants);
+    const groups = Object.entries(contract.variants).map(([name, variant]) => ({
       name: variant.name,
       id: name,
-      size: Math.round((variant.passPercentage / totalPercentage) * 100),
+      size: sizes[name],
       parameterValues: variant.parameters,
+      disabled: variant.disabled,
       description: variant.description,
     }));
 
@@ -163,7 +309,7 @@ export class StatsigAPI {
       name: contract.name,
       description: contract.description || `Experiment: ${contract.experimentKey}`,
       hypothesis: contract.hypothesis || 'Testing new feature',
-      groups: normalizedVariants,
+      groups,
       primaryMetrics: contract.primaryMetrics.map(metric => ({
         name: metric.name,
         type: metric.type,
@@ -176,8 +322,14 @@ export class StatsigAPI {
         direction: metric.direction,
         hypothesizedValue: metric.hypothesizedValue,
       })),
+      guardrailMetrics: contract.guardrailMetrics.map(metric => ({
+        name: metric.name,
+        type: metric.type,
+        direction: metric.direction,
+      })),
       idType: contract.statsig.idType,
-      targetingGateID: contract.statsig.targetingGateID,
+      targetingGateID: this.targetingGateID(contract),
+      layerID: contract.layer,
       tags: [...contract.metadata.tags, 'automated', 'branch-based'],
     };
   }
@@ -185,20 +337,8 @@ export class StatsigAPI {
   /**
    * Build targeting configuration from contract
    */
-  private buildTargetingConfig(contract: ExperimentContract) {
-    // Convert targeting rules to Statsig format
-    const rules = contract.targetingRules.map(rule => ({
-      name: rule.name,
-      passPercentage: rule.passPercentage,
-      conditions: rule.conditions.map(condition => ({
-        type: this.mapConditionType(condition.type),
-        operator: condition.operator,
-        targetValue: condition.targetValue,
-        field: condition.field,
-      })),
-      returnValue: {},
-      environments: rule.environments || ['development'],
-    }));
+  buildTargetingConfig(contract: ExperimentContract) {
+    const sizes = variantGroupSizes(contract.variants);
 
     return {
       description: contract.description || `Experiment: ${contract.experimentKey}`,
@@ -206,14 +346,73 @@ export class StatsigAPI {
       hypothesis: contract.hypothesis || 'Testing new feature',
       groups: Object.entries(contract.variants).map(([name, variant]) => ({
         name: variant.name,
-        size: variant.passPercentage,
+        id: name,
+        size: sizes[name],
         parameterValues: variant.parameters,
+        disabled: variant.disabled,
       })),
       allocation: contract.allocation,
-      targetingGateID: contract.statsig.targetingGateID || null,
-      bonferroniCorrection: false,
-      defaultConfidenceInterval: '95',
-      status: 'setup',
+      targetingGateID: this.targetingGateID(contract) || null,
+      rules: contract.targetingRules.map(rule => this.buildTargetingRule(rule)),
+      bonferroniCorrection: contract.statsig.bonferroniCorrection,
+      defaultConfidenceInterval: String(contract.statsig.confidenceInterval),
+    };
+  }
+
+  /**
+   * Gate the experiment targets: `statsig.targetingGateID`, else the contract's
+   * only declared gate
+   */
+  targetingGateID(contract: ExperimentContract): string | undefined {
+    if (contract.statsig.targetingGateID) {
+      return contract.statsig.targetingGateID;
+    }
+    return contract.gates.length === 1 ? contract.gates[0].name : undefined;
+  }
+
+  /**
+   * Build gate configuration from a contract gate; the gate's passPercentage
+   * applies to every rule, and a gate without rules passes everyone
+   */
+  buildGateConfig(gate: FeatureGate): StatsigGateConfig {
+    const rules = gate.rules.length > 0
+      ? gate.rules.map(rule => this.buildTargetingRule({ ...rule, passPercentage: gate.passPercentage }))
+      : [{
+          name: 'Everyone',
+          passPercentage: gate.passPercentage,
+          conditions: [{ type: 'public', targetValue: [] }],
+        }];
+
+    return {
+      id: gate.name,
+      name: gate.name,
+      description: gate.description || `Feature gate: ${gate.name}`,
+      isEnabled: true,
+      rules,
+    };
+  }
+
+  /**
+   * Convert a contract targeting rule to a Statsig rule
+   */
+  private buildTargetingRule(rule: TargetingRule): StatsigTargetingRule {
+    return {
+      name: rule.name,
+      passPercentage: rule.passPercentage,
+      conditions: rule.conditions.map(condition => {
+        if (condition.type === 'custom_field' && !condition.field) {
+          throw new Error(`Targeting rule '${rule.name}': custom_field conditions need a field`);
+        }
+        return {
+          type: this.mapConditionType(condition.type),
+          operator: this.mapOperator(condition.operator),
+          // Statsig matches against a list for every string operator
+          targetValue: Array.isArray(condition.targetValue) ? condition.targetValue : [condition.targetValue],
+          // The SDK user carries the git branch as custom.branch (src/lib/statsigClient.ts)
+          field: condition.type === 'branch' ? condition.field || 'branch' : condition.field,
+        };
+      }),
+      ...(rule.environments ? { environments: rule.environments } : {}),
     };
   }
 
@@ -231,11 +430,26 @@ export class StatsigAPI {
     return mapping[type] || 'custom_field';
   }
 
+  /**
+   * Map contract operators to Statsig list operators
+   */
+  private mapOperator(operator: TargetingCondition['operator']): string {
+    const mapping: Record<TargetingCondition['operator'], string> = {
+      equals: 'any',
+      in: 'any',
+      not_in: 'none',
+      contains: 'str_contains_any',
+      starts_with: 'str_starts_with_any',
+      ends_with: 'str_ends_with_any',
+    };
+    return mapping[operator];
+  }
+
 }
 
 /**
  * Create Statsig API instance
  */
-export function createStatsigAPI(): StatsigAPI {
-  return new StatsigAPI();
+export function createStatsigAPI(backend?: StatsigBackend): StatsigAPI {
+  return new StatsigAPI(backend);
 }
@@ -0,0 +1,161 @@
+/**
+ * Statsig Backend Selection
+ * Common interface over the MCP client, the Console API and the offline fake
+ */
+
+import { createMCPClient, type MCPResponse } from './mcp-client.js';
+import { createConsoleAPIClient } from './console-api-client.js';
+import { createFakeStatsigBackend } from './fake-statsig-backend.js';
+
+/**
+ * Available backend implementations
+ */
+export const STATSIG_BACKEND_KINDS = ['mcp', 'console', 'fake'] as const;
+
+export type StatsigBackendKind = typeof STATSIG_BACKEND_KINDS[number];
+
+/**
+ * Statsig experiment configuration
+ */
+export interface StatsigExperimentConfig {
+  id: string;
+  name: string;
+  description: string;
+  hypothesis: string;
+  groups: Array<{
+    name: string;
+    id?: string;
+    size: number;
+    parameterValues: Record<string, any>;
+    disabled?: boolean;
+    description?: string;
+  }>;
+  primaryMetrics: Array<{
+    name: string;
+    type: string;
+    direction?: 'increase' | 'decrease';
+    hypothesizedValue?: number;
+  }>;
+  secondaryMetrics?: Array<{
+    name: string;
+    type: string;
+    direction?: 'increase' | 'decrease';
+    hypothesizedValue?: number;
+  }>;
+  guardrailMetrics?: Array<{
+    name: string;
+    type: string;
+    direction?: 'increase' | 'decrease';
+  }>;
+  idType: string;
+  targetingGateID?: string;
+  layerID?: string;
+  tags?: string[];
+}
+
+/**
+ * Statsig targeting rule (all conditions must match)
+ */
+export interface StatsigTargetingRule {
+  name: string;
+  passPercentage: number;
+  conditions: Array<{
+    type: string;
+    /** Omitted for `public` (everyone) conditions */
+    operator?: string;
+    targetValue: Array<string | number>;
+    field?: string;
+  }>;
+  /** Omitted to apply in every environment */
+  environments?: string[];
+}
+
+/**
+ * Statsig layer configuration
+ */
+export interface StatsigLayerConfig {
+  id: string;
+  name: string;
+  description: string;
+  idType: string;
+}
+
+/**
+ * Statsig feature gate configuration
+ */
+export interface StatsigGateConfig {
+  id: string;
+  name: string;
+  description: string;
+  isEnabled: boolean;
+  rules: StatsigTargetingRule[];
+}
+
+/**
+ * Operations every Statsig backend must support
+ */
+export interface StatsigBackend {
+  readonly kind: StatsigBackendKind;
+  createExperiment(config: StatsigExperimentConfig): Promise<MCPResponse>;
+  getExperimentDetails(experimentId: string): Promise<MCPResponse>;
+  updateExperiment(experimentId: string, config: any): Promise<MCPResponse>;
+  startExperiment(experimentId: string): Promise<MCPResponse>;
+  stopExperiment(experimentId: string): Promise<MCPResponse>;
+  archiveExperiment(experimentId: string): Promise<MCPResponse>;
+  makeDecision(experimentId: string, groupId: string, reason: string): Promise<MCPResponse>;
+  listExperiments(): Promise<MCPResponse>;
+  getExperimentResults(experimentId: string, controlGroup: string, testGroup: string): Promise<MCPResponse>;
+  getLayer(layerId: string): Promise<MCPResponse>;
+  createLayer(config: StatsigLayerConfig): Promise<MCPResponse>;
+  getGate(gateId: string): Promise<MCPResponse>;
+  createGate(config: StatsigGateConfig): Promise<MCPResponse>;
+  updateGate(gateId: string, config: StatsigGateConfig): Promise<MCPResponse>;
+  close(): Promise<void>;
+}
+
+/**
+ * Resolve the backend kind from a CLI flag or STATSIG_BACKEND (default: mcp)
+ */
+export function resolveBackendKind(flag?: string | boolean): StatsigBackendKind {
+  const requested = (typeof flag === 'string' ? flag : process.env.STATSIG_BACKEND) || 'mcp';
+
+  if (!(STATSIG_BACKEND_KINDS as readonly string[]).includes(requested)) {
+    throw new Error(`Unknown Statsig backend '${requested}'. Use one of: ${STATSIG_BACKEND_KINDS.join(', ')}`);
+  }
+
+  return requested as StatsigBackendKind;
+}
+
+/**
+ * Create a backend instance
+ */
+export function createStatsigBackend(kind: StatsigBackendKind = resolveBackendKind()): StatsigBackend {
+  switch (kind) {
+    case 'console':
+      return createConsoleAPIClient();
+    case 'fake':
+      return createFakeStatsigBackend();
+    case 'mcp':
+    default:
+      return createMCPClient();
+  }
+}
+
+let defaultBackend: StatsigBackend | null = null;
+
+/**
+ * Global backend instance (lazy-loaded)
+ */
+export function getStatsigBackend(): StatsigBackend {
+  if (!defaultBackend) {
+    defaultBackend = createStatsigBackend();
+  }
+  return defaultBackend;
+}
+
+/**
+ * Replace the global backend (used by CLI flags)
+ */
+export function setStatsigBackend(backend: StatsigBackend): void {
+  defaultBackend = backend;
+}
@@ -0,0 +1,65 @@
+/**
+ * In-Memory Type Checking
+ * Runs the TypeScript compiler over the project with some files replaced in memory
+ */
+
+import * as ts from 'typescript';
+import { join, relative, resolve } from 'path';
+
+/**
+ * Type check outcome
+ */
+export interface TypeCheckResult {
+  success: boolean;
+  errors: string[];
+}
+
+/**
+ * Type-check files as if `overrides` (absolute path → content) were on disk.
+ * Only diagnostics in the overridden files are reported.
+ */
+export function typeCheckWithOverrides(projectRoot: string, overrides: Map<string, string>): TypeCheckResult {
+  const configPath = join(projectRoot, 'tsconfig.json');
+  const configFile = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (configFile.error) {
+    return { success: false, errors: [ts.flattenDiagnosticMessageText(configFile.error.messageText, '\n')] };
+  }
+
+  const parsed = ts.parseJsonConfigFileContent(configFile.config, ts.sys, projectRoot);
+  const options: ts.CompilerOptions = { ...parsed.options, noEmit: true, incremental: false };
+  const files = new Map<string, string>();
+  overrides.forEach((content, file) => files.set(resolve(file), content));
+
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+    const content = files.get(resolve(fileName));
+    return content !== undefined
+      ? ts.createSourceFile(fileName, content, languageVersion, true)
+      : getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate);
+  };
+  const readFile = host.readFile;
+  host.readFile = fileName => files.get(resolve(fileName)) ?? readFile.call(host, fileName);
+  const fileExists = host.fileExists;
+  host.fileExists = fileName => files.has(resolve(fileName)) || fileExists.call(host, fileName);
+
+  // Only the changed files are roots; the compiler follows their imports
+  const program = ts.createProgram(Array.from(files.keys()), options, host);
+  const errors: string[] = [];
+
+  program.getSourceFiles()
+    .filter(sourceFile => files.has(resolve(sourceFile.fileName)))
+    .forEach(sourceFile => {
+      ts.getPreEmitDiagnostics(program, sourceFile).forEach(diagnostic => {
+        const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+        if (diagnostic.file && diagnostic.start !== undefined) {
+          const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+          errors.push(`${relative(projectRoot, diagnostic.file.fileName)}:${line + 1}:${character + 1} - ${message}`);
+        } else {
+          errors.push(message);
+        }
+      });
+    });
+
+  return { success: errors.length === 0, errors };
+}
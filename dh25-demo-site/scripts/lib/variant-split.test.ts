@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BASIS_POINTS, largestRemainder, variantBasisPoints, variantGroupSizes } from './variant-split.js';
+import { treatmentVariantKeys } from './experiment-results.js';
+import { validateContract } from './contract-schema.js';
+
+const variant = (passPercentage: number, extra: Record<string, unknown> = {}) => ({
+  name: 'Variant',
+  parameters: {},
+  passPercentage,
+  ...extra,
+});
+
+test('largestRemainder gives leftover units to the largest remainders', () => {
+  // 10000 / 3 = 3333.33 each; the single leftover unit goes to the first (tie)
+  assert.deepEqual(largestRemainder([1, 1, 1], BASIS_POINTS), [3334, 3333, 3333]);
+  // 10000 * [0.125, 0.375, 0.5] is exact
+  assert.deepEqual(largestRemainder([12.5, 37.5, 50], BASIS_POINTS), [1250, 3750, 5000]);
+  // 7 * [1/6, 2/6, 3/6] = 1.17, 2.33, 3.5: floors 1, 2, 3 and the leftover to 3.5
+  assert.deepEqual(largestRemainder([1, 2, 3], 7), [1, 2, 4]);
+});
+
+test('largestRemainder always sums to the total', () => {
+  [[33, 33, 34], [1, 1, 1, 1, 1, 1, 1], [0.1, 99.9], [5, 0, 5]].forEach(weights => {
+    const parts = largestRemainder(weights, BASIS_POINTS);
+    assert.equal(parts.reduce((acc, part) => acc + part, 0), BASIS_POINTS, `weights ${weights.join(', ')}`);
+  });
+});
+
+test('largestRemainder returns zeros when there is no weight', () => {
+  assert.deepEqual(largestRemainder([0, 0], BASIS_POINTS), [0, 0]);
+  assert.deepEqual(largestRemainder([], BASIS_POINTS), []);
+});
+
+test('variantBasisPoints renormalizes around disabled variants', () => {
+  const basisPoints = variantBasisPoints({
+    control: variant(40),
+    treatment: variant(40),
+    retired: variant(20, { disabled: true }),
+  });
+
+  assert.deepEqual(basisPoints, { control: 5000, treatment: 5000, retired: 0 });
+});
+
+test('variantGroupSizes reports percent with two decimals', () => {
+  assert.deepEqual(
+    variantGroupSizes({ a: variant(1), b: variant(1), c: variant(1) }),
+    { a: 33.34, b: 33.33, c: 33.33 }
+  );
+});
+
+test('treatmentVariantKeys skips control, holdouts and disabled variants', () => {
+  const contract = validateContract({
+    schemaVersion: 2,
+    experimentKey: 'split_test',
+    name: 'Split test',
+    variants: {
+      control: variant(45, { parameters: { enabled: false } }),
+      treatment: variant(45, { parameters: { enabled: true } }),
+      holdout: variant(10, { parameters: { enabled: false }, holdout: true }),
+      retired: variant(20, { parameters: { enabled: true }, disabled: true }),
+    },
+    codeChanges: [{ file: 'src/app/page.tsx', function: 'Page', parameterUsage: 'enabled' }],
+    branchConfig: { branchName: 'exp/split_test' },
+    deployment: {},
+    statsig: {},
+  });
+
+  assert.deepEqual(treatmentVariantKeys(contract), ['treatment']);
+});
@@ -0,0 +1,68 @@
+/**
+ * Variant Splits
+ * Exact traffic splits in basis points (0.01%), the finest group size Statsig stores
+ */
+
+import type { Variant } from './contract-schema.js';
+
+/**
+ * Basis points in 100%
+ */
+export const BASIS_POINTS = 10000;
+
+/**
+ * Split `total` whole units in proportion to `weights`: everyone gets the
+ * floor of their share and the leftover units go to the largest remainders
+ * (earlier entries win ties), so the parts always add up to `total`
+ */
+export function largestRemainder(weights: number[], total: number): number[] {
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  if (sum <= 0) {
+    return weights.map(() => 0);
+  }
+
+  const exact = weights.map(weight => (weight / sum) * total);
+  const parts = exact.map(Math.floor);
+  let leftover = total - parts.reduce((acc, part) => acc + part, 0);
+
+  exact
+    .map((value, index) => ({ index, remainder: value - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .forEach(({ index }) => {
+      if (leftover > 0) {
+        parts[index] += 1;
+        leftover -= 1;
+      }
+    });
+
+  return parts;
+}
+
+/**
+ * Basis points per variant key; disabled variants receive no traffic
+ */
+export function variantBasisPoints(variants: Record<string, Variant>): Record<string, number> {
+  const keys = Object.keys(variants);
+  const parts = largestRemainder(
+    keys.map(key => (variants[key].disabled ? 0 : variants[key].passPercentage)),
+    BASIS_POINTS
+  );
+
+  const result: Record<string, number> = {};
+  keys.forEach((key, index) => {
+    result[key] = parts[index];
+  });
+  return result;
+}
+
+/**
+ * Statsig group size in percent (two decimals) per variant key
+ */
+export function variantGroupSizes(variants: Record<string, Variant>): Record<string, number> {
+  const basisPoints = variantBasisPoints(variants);
+  const sizes: Record<string, number> = {};
+  Object.keys(basisPoints).forEach(key => {
+    sizes[key] = basisPoints[key] / 100;
+  });
+  return sizes;
+}
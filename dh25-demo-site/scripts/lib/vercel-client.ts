@@ -318,6 +318,7 @@ export function getVercelClient(): VercelClient {
       waitForDeployment: async () => ({ success: true, url: 'https://mock-deployment.vercel.app' }),
       createDeployment: async () => ({ success: true, url: 'https://mock-deployment.vercel.app' }),
       pollDeployment: async () => ({ success: true, url: 'https://mock-deployment.vercel.app' }),
+      cancelDeployment: async () => true,
     } as any;
   }
 }
@@ -0,0 +1,336 @@
+#!/usr/bin/env tsx
+
+/**
+ * Local Stub MCP Server
+ * Speaks MCP over stdio (default) or HTTP so the experiment tooling can be
+ * exercised without a Statsig project. Experiments live in memory only.
+ *
+ * Usage:
+ *   tsx scripts/mcp-stub-server.ts                  # stdio
+ *   tsx scripts/mcp-stub-server.ts --http 8787      # HTTP, JSON replies
+ *   tsx scripts/mcp-stub-server.ts --http 8787 --sse  # HTTP, SSE replies
+ */
+
+import { createServer } from 'http';
+import { randomUUID } from 'crypto';
+import type { JSONRPCMessage } from './lib/mcp-transport.js';
+
+/**
+ * Tool handler signature
+ */
+type ToolHandler = (args: Record<string, any>) => any;
+
+/**
+ * In-memory experiment store
+ */
+const experiments = new Map<string, Record<string, any>>();
+
+/**
+ * In-memory layer store
+ */
+const layers = new Map<string, Record<string, any>>();
+
+/**
+ * In-memory feature gate store
+ */
+const gates = new Map<string, Record<string, any>>();
+
+/**
+ * Console API style envelope
+ */
+function envelope(message: string, data: any) {
+  return { message, data };
+}
+
+/**
+ * Look up an experiment or fail the tool call
+ */
+function requireExperiment(id: string): Record<string, any> {
+  const experiment = experiments.get(id);
+  if (!experiment) {
+    throw new Error(`Experiment not found: ${id}`);
+  }
+  return experiment;
+}
+
+/**
+ * Stub implementations of the Statsig MCP tools
+ */
+const TOOLS: Record<string, ToolHandler> = {
+  Create_Experiment: (args) => {
+    const body = args['application/json'] || {};
+    const id = body.id || body.name;
+    if (!id) {
+      throw new Error('Experiment id or name is required');
+    }
+    if (experiments.has(id)) {
+      throw new Error(`Experiment already exists: ${id}`);
+    }
+    if (body.layerID && !layers.has(body.layerID)) {
+      throw new Error(`Layer not found: ${body.layerID}`);
+    }
+    const experiment = { ...body, id, status: 'setup', createdTime: Date.now() };
+    experiments.set(id, experiment);
+    return envelope('Experiment created successfully', experiment);
+  },
+
+  Get_Experiment_Details_by_ID: (args) => {
+    return envelope('Experiment read successfully', requireExperiment(args.path_id));
+  },
+
+  Update_Experiment_Entirely: (args) => {
+    const current = requireExperiment(args.path_id);
+    const updated = { ...current, ...(args['application/json'] || {}), id: current.id, lastModifiedTime: Date.now() };
+    experiments.set(current.id, updated);
+    return envelope('Experiment updated successfully', updated);
+  },
+
+  Archive_Experiment: (args) => {
+    const current = requireExperiment(args.path_id);
+    const archived = { ...current, status: 'archived', lastModifiedTime: Date.now() };
+    experiments.set(current.id, archived);
+    return envelope('Experiment archived successfully', archived);
+  },
+
+  Make_Experiment_Decision: (args) => {
+    const current = requireExperiment(args.path_id);
+    const body = args['application/json'] || {};
+    if (!(current.groups || []).some((group: { id?: string }) => group.id === body.id)) {
+      throw new Error(`Group not found in ${current.id}: ${body.id}`);
+    }
+    const decided = {
+      ...current,
+      status: 'decision_made',
+      decision: { groupID: body.id, reason: body.decisionReason },
+      lastModifiedTime: Date.now(),
+    };
+    experiments.set(current.id, decided);
+    return envelope('Experiment decision made successfully', decided);
+  },
+
+  Get_List_of_Experiments: () => {
+    return envelope('Experiments listed successfully', Array.from(experiments.values()));
+  },
+
+  Get_Experiment_Results: (args) => {
+    requireExperiment(args.path_id);
+    return envelope('Experiment results read successfully', {
+      control: args.query_control,
+      test: args.query_test,
+      metrics: [],
+    });
+  },
+
+  Create_Layer: (args) => {
+    const body = args['application/json'] || {};
+    const id = body.id || body.name;
+    if (!id) {
+      throw new Error('Layer id or name is required');
+    }
+    if (layers.has(id)) {
+      throw new Error(`Layer already exists: ${id}`);
+    }
+    const layer = { ...body, id, createdTime: Date.now() };
+    layers.set(id, layer);
+    return envelope('Layer created successfully', layer);
+  },
+
+  Get_Layer_Details_by_ID: (args) => {
+    const layer = layers.get(args.path_id);
+    if (!layer) {
+      throw new Error(`Layer not found: ${args.path_id}`);
+    }
+    return envelope('Layer read successfully', layer);
+  },
+
+  Create_Gate: (args) => {
+    const body = args['application/json'] || {};
+    const id = body.id || body.name;
+    if (!id) {
+      throw new Error('Gate id or name is required');
+    }
+    if (gates.has(id)) {
+      throw new Error(`Gate already exists: ${id}`);
+    }
+    const gate = { isEnabled: true, rules: [], ...body, id, createdTime: Date.now() };
+    gates.set(id, gate);
+    return envelope('Gate created successfully', gate);
+  },
+
+  Get_Gate_Details_by_ID: (args) => {
+    const gate = gates.get(args.path_id);
+    if (!gate) {
+      throw new Error(`Gate not found: ${args.path_id}`);
+    }
+    return envelope('Gate read successfully', gate);
+  },
+
+  Update_Gate_Entirely: (args) => {
+    const current = gates.get(args.path_id);
+    if (!current) {
+      throw new Error(`Gate not found: ${args.path_id}`);
+    }
+    const updated = { ...current, ...(args['application/json'] || {}), id: current.id, lastModifiedTime: Date.now() };
+    gates.set(current.id, updated);
+    return envelope('Gate updated successfully', updated);
+  },
+};
+
+/**
+ * Handle one JSON-RPC message; returns the reply (or null for notifications)
+ */
+function handleMessage(message: JSONRPCMessage): JSONRPCMessage | null {
+  if (message.id === undefined || message.id === null) {
+    return null;
+  }
+
+  const reply = (result: any): JSONRPCMessage => ({ jsonrpc: '2.0', id: message.id, result });
+  const fail = (code: number, text: string): JSONRPCMessage => ({
+    jsonrpc: '2.0',
+    id: message.id,
+    error: { code, message: text },
+  });
+
+  switch (message.method) {
+    case 'initialize':
+      return reply({
+        protocolVersion: message.params?.protocolVersion || '2025-03-26',
+        capabilities: { tools: {} },
+        serverInfo: { name: 'statsig-stub', version: '1.0.0' },
+      });
+
+    case 'ping':
+      return reply({});
+
+    case 'tools/list':
+      return reply({
+        tools: Object.keys(TOOLS).map(name => ({
+          name,
+          description: `Stub implementation of ${name}`,
+          inputSchema: { type: 'object' },
+        })),
+      });
+
+    case 'tools/call': {
+      const handler = TOOLS[message.params?.name];
+      if (!handler) {
+        return fail(-32602, `Unknown tool: ${message.params?.name}`);
+      }
+      try {
+        const data = handler(message.params?.arguments || {});
+        return reply({ content: [{ type: 'text', text: JSON.stringify(data) }] });
+      } catch (error) {
+        return reply({
+          isError: true,
+          content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+        });
+      }
+    }
+
+    default:
+      return fail(-32601, `Method not found: ${message.method}`);
+  }
+}
+
+/**
+ * Serve newline-delimited JSON-RPC on stdin/stdout
+ */
+function serveStdio(): void {
+  let buffer = '';
+
+  process.stdin.setEncoding('utf-8');
+  process.stdin.on('data', (chunk: string) => {
+    buffer += chunk;
+    let newlineIndex = buffer.indexOf('\n');
+
+    while (newlineIndex >= 0) {
+      const line = buffer.slice(0, newlineIndex).trim();
+      buffer = buffer.slice(newlineIndex + 1);
+      newlineIndex = buffer.indexOf('\n');
+
+      if (!line) continue;
+
+      let response: JSONRPCMessage | null;
+      try {
+        response = handleMessage(JSON.parse(line));
+      } catch {
+        response = { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } };
+      }
+
+      if (response) {
+        process.stdout.write(`${JSON.stringify(response)}\n`);
+      }
+    }
+  });
+  process.stdin.on('end', () => process.exit(0));
+
+  console.error('🧪 Statsig stub MCP server listening on stdio');
+}
+
+/**
+ * Serve the streamable HTTP transport
+ */
+function serveHttp(port: number, useSSE: boolean): void {
+  const sessionId = randomUUID();
+
+  const server = createServer((req, res) => {
+    if (req.method === 'DELETE') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', (chunk: string) => { body += chunk; });
+    req.on('end', () => {
+      let response: JSONRPCMessage | null;
+      try {
+        response = handleMessage(JSON.parse(body));
+      } catch {
+        response = { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } };
+      }
+
+      if (!response) {
+        res.writeHead(202, { 'Mcp-Session-Id': sessionId }).end();
+        return;
+      }
+
+      if (useSSE) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Mcp-Session-Id': sessionId });
+        res.end(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': sessionId });
+        res.end(JSON.stringify(response));
+      }
+    });
+  });
+
+  server.listen(port, () => {
+    console.error(`🧪 Statsig stub MCP server listening on http://localhost:${port}/mcp${useSSE ? ' (SSE)' : ''}`);
+  });
+}
+
+/**
+ * Main entry point
+ */
+function main(): void {
+  const args = process.argv.slice(2);
+  const httpIndex = args.indexOf('--http');
+
+  if (httpIndex >= 0) {
+    const port = parseInt(args[httpIndex + 1] || '8787', 10);
+    serveHttp(port, args.includes('--sse'));
+  } else {
+    serveStdio();
+  }
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
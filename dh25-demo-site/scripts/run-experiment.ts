@@ -5,14 +5,28 @@
  * Automates the full workflow from contract to live experiment
  */
 
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, existsSync, writeFileSync } from 'fs';
 import { join, resolve } from 'path';
-import { execSync } from 'child_process';
-import { validateContract, createDefaultContract, type ExperimentContract } from './lib/contract-schema.js';
-import { FastCodeGenerator } from './lib/fast-code-generator.js';
+import { execFileSync, execSync } from 'child_process';
+import type { ExperimentContract } from './lib/contract-schema.js';
+import { findContractFile, loadContractFile } from './lib/contract-loader.js';
+import { AstCodeGenerator } from './lib/ast-code-generator.js';
+import { CodeGenerator } from './lib/code-generator.js';
+import { colorizeDiff, createUnifiedDiff, shouldColorize } from './lib/diff.js';
+import { typeCheckWithOverrides } from './lib/type-check.js';
 import { StatsigAPI } from './lib/statsig-api.js';
 import { getVercelClient } from './lib/vercel-client.js';
 import { getGitHubClient } from './lib/github-client.js';
+import { parseArgs } from './lib/cli-args.js';
+import { RunJournal } from './lib/run-journal.js';
+import { initialAllocation } from './lib/rollout.js';
+import { loadShipDecision, saveShipDecision, type ShipDecision } from './lib/ship-decision.js';
+import {
+  createStatsigBackend,
+  resolveBackendKind,
+  setStatsigBackend,
+  type StatsigBackend,
+} from './lib/statsig-backend.js';
 
 // Load environment variables from .env.local
 try {
@@ -26,122 +40,567 @@ try {
   console.warn('⚠️  dotenv not available, using system environment variables');
 }
 
+/**
+ * Options for a workflow run
+ */
+export interface RunExperimentOptions {
+  resume?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Outcome of a single compensating action during rollback
+ */
+export interface RollbackAction {
+  action: string;
+  status: 'done' | 'skipped' | 'failed';
+  detail: string;
+}
+
+/**
+ * Options for shipping a variant
+ */
+export interface ShipOptions {
+  /** Decision reason recorded in Statsig and the PR */
+  reason?: string;
+  /** Merge the PR right away instead of waiting for review */
+  merge?: boolean;
+}
+
 /**
  * Main experiment runner
  */
 class ExperimentRunner {
   private projectRoot: string;
   private statsigAPI: StatsigAPI;
-  private codeGenerator: FastCodeGenerator;
+  private codeGenerator: AstCodeGenerator;
 
-  constructor() {
+  constructor(backend?: StatsigBackend) {
     this.projectRoot = resolve(process.cwd());
-    this.statsigAPI = new StatsigAPI();
-    this.codeGenerator = new FastCodeGenerator(this.projectRoot);
+    this.statsigAPI = new StatsigAPI(backend);
+    this.codeGenerator = new AstCodeGenerator(this.projectRoot);
   }
 
   /**
    * Run complete experiment workflow
    */
-  async runExperiment(experimentKey: string, contractPath?: string): Promise<void> {
+  async runExperiment(
+    experimentKey: string,
+    contractPath?: string,
+    options: RunExperimentOptions = {}
+  ): Promise<void> {
     console.log(`🚀 Starting experiment workflow for: ${experimentKey}`);
-    
-    try {
-      // Step 1: Load and validate contract
-      const contract = await this.loadContract(experimentKey, contractPath);
-      console.log(`✅ Loaded contract for experiment: ${contract.experimentKey}`);
 
-      // Step 2: Create experiment branch
-      const branchName = contract.branchConfig.branchName;
-      await this.createExperimentBranch(branchName, contract.branchConfig.createFromBranch);
-      console.log(`✅ Created and checked out branch: ${branchName}`);
+    // Step 1: Load and validate contract
+    const contract = await this.loadContract(experimentKey, contractPath);
+    console.log(`✅ Loaded contract for experiment: ${contract.experimentKey}`);
 
-      // Step 3: Apply code changes
-      const codeResults = await this.codeGenerator.applyCodeChanges(contract);
-      const failedChanges = codeResults.filter(result => !result.success);
-      
-      if (failedChanges.length > 0) {
-        console.error('❌ Some code changes failed:');
-        failedChanges.forEach(result => {
-          console.error(`  - ${result.file}: ${result.errors.join(', ')}`);
-        });
-        throw new Error('Code changes failed');
+    if (options.dryRun) {
+      await this.previewCodeChanges(contract);
+      return;
+    }
+
+    const journal = this.openJournal(experimentKey, options);
+    if (!journal) {
+      return;
+    }
+
+    const branchName = contract.branchConfig.branchName;
+    journal.beginAttempt();
+
+    try {
+      // Step 2: Create experiment branch (resumed runs just check it out again)
+      if (journal.isStepDone('branch')) {
+        this.checkoutBranch(branchName);
       }
-      console.log(`✅ Applied ${codeResults.length} code changes`);
+      await journal.runStep('branch', async () => {
+        await this.createExperimentBranch(branchName, contract.branchConfig.createFromBranch);
+        console.log(`✅ Created and checked out branch: ${branchName}`);
+        return { branchName };
+      });
+
+      // Step 3: Apply code changes
+      await journal.runStep('code', async () => {
+        await this.createRollbacks(contract);
+        const codeResults = await this.codeGenerator.applyCodeChanges(contract);
+        const failedChanges = codeResults.filter(result => !result.success);
+
+        if (failedChanges.length > 0) {
+          console.error('❌ Some code changes failed:');
+          failedChanges.forEach(result => {
+            console.error(`  - ${result.file}: ${result.errors.join(', ')}`);
+          });
+          throw new Error('Code changes failed');
+        }
+        console.log(`✅ Applied ${codeResults.length} code changes`);
+        return { files: codeResults.map(result => result.file) };
+      });
 
       // Step 4: Commit and push changes
-      await this.commitAndPushChanges(contract);
-      console.log(`✅ Committed and pushed changes to branch: ${branchName}`);
+      await journal.runStep('commit', async () => {
+        const commit = await this.commitAndPushChanges(contract);
+        console.log(`✅ Committed and pushed changes to branch: ${branchName}`);
+        return { commit };
+      });
 
       // Step 5: Wait for deployment (if enabled)
-      let previewUrl = '';
-      if (contract.deployment.waitForDeployment) {
-        previewUrl = await this.waitForDeployment(branchName, contract);
-        console.log(`✅ Deployment ready at: ${previewUrl}`);
-      } else {
+      const { previewUrl } = await journal.runStep('deploy', async () => {
+        if (contract.deployment.waitForDeployment) {
+          const deployment = await this.waitForDeployment(branchName, contract);
+          console.log(`✅ Deployment ready at: ${deployment.url}`);
+          return { previewUrl: deployment.url, deploymentId: deployment.deploymentId };
+        }
+
         // Fallback URL for when deployment is disabled
-        previewUrl = `https://${branchName.replace(/[^a-z0-9-]/gi, '-')}-dh25-demo-site.vercel.app`;
-        console.log(`⚠️  Using fallback URL: ${previewUrl}`);
+        const fallbackUrl = this.fallbackPreviewUrl(branchName);
+        console.log(`⚠️  Using fallback URL: ${fallbackUrl}`);
+        return { previewUrl: fallbackUrl };
+      });
+
+      // Step 6: Create or update the contract's gates so the experiment and code can use them
+      if (contract.gates.length > 0) {
+        await journal.runStep('gate', async () => {
+          const gates: Record<string, string> = {};
+          for (const gate of contract.gates) {
+            gates[gate.name] = await this.statsigAPI.upsertGate(gate);
+          }
+          console.log(`✅ Configured ${contract.gates.length} feature gate(s)`);
+
+          // The experiment is created targeting this gate in the next step
+          const targetingGateID = this.statsigAPI.targetingGateID(contract);
+          if (targetingGateID) {
+            console.log(`🔗 Experiment will target gate: ${targetingGateID}`);
+          }
+          return { gates, targetingGateID };
+        });
+      } else {
+        journal.skipStep('gate', 'no gates declared');
       }
 
-      // Step 6: Create experiment in Statsig
-      const experimentId = await this.statsigAPI.createExperiment(contract);
-      console.log(`✅ Created experiment in Statsig: ${experimentId}`);
-
-      // Step 7: Configure targeting rules
-      await this.statsigAPI.updateExperimentTargeting(experimentId, contract);
-      console.log(`✅ Configured targeting rules for experiment: ${experimentId}`);
-
-      // Step 8: Create Pull Request (DISABLED FOR TESTING)
-      console.log(`⏭️  Skipping PR creation (disabled for testing)`);
-      // const prResult = await this.createPullRequest(experimentKey, branchName, previewUrl, contract);
-      // if (prResult.success) {
-      //   console.log(`✅ Created PR #${prResult.pr?.number}: ${prResult.pr?.html_url}`);
-      // } else {
-      //   console.log(`⚠️  Failed to create PR: ${prResult.error}`);
-      // }
-
-      // Step 9: Start experiment (if auto-start enabled)
+      // Step 7: Create experiment in Statsig
+      const { experimentId } = await journal.runStep('create', async () => {
+        const id = await this.statsigAPI.createExperiment(contract);
+        console.log(`✅ Created experiment in Statsig: ${id}`);
+        return { experimentId: id };
+      });
+
+      // Step 8: Configure targeting rules (rollout schedules begin at their first step)
+      await journal.runStep('targeting', async () => {
+        await this.statsigAPI.updateExperimentTargeting(experimentId, { ...contract, allocation: initialAllocation(contract) });
+        console.log(`✅ Configured targeting rules for experiment: ${experimentId}`);
+      });
+
+      // Step 9: Create Pull Request
+      await journal.runStep('pr', async () => {
+        const prResult = await this.createPullRequest(experimentKey, branchName, previewUrl, contract);
+        if (!prResult.success) {
+          throw new Error(`Failed to create PR: ${prResult.error}`);
+        }
+        console.log(`✅ Created PR #${prResult.pr?.number}: ${prResult.pr?.html_url}`);
+        return { prNumber: prResult.pr?.number, prUrl: prResult.pr?.html_url };
+      });
+
+      // Step 10: Start experiment (if auto-start enabled)
       if (contract.statsig.autoStart) {
-        await this.statsigAPI.startExperiment(experimentId);
-        console.log(`✅ Started experiment: ${experimentId}`);
+        await journal.runStep('start', async () => {
+          await this.statsigAPI.startExperiment(experimentId);
+          console.log(`✅ Started experiment: ${experimentId}`);
+        });
       } else {
+        journal.skipStep('start', 'autoStart disabled');
         console.log(`⏸️  Experiment created but not started. Use 'npm run experiment:start ${experimentKey}' to start it.`);
       }
 
+      journal.complete();
+
       console.log(`🎉 Experiment workflow completed successfully!`);
-      console.log(`📊 Experiment ID: ${experimentId}`);
-      console.log(`🌿 Branch: ${branchName}`);
-      console.log(`🔗 Preview URL: ${previewUrl}`);
+      this.printRunSummary(journal);
       console.log(`\n✨ Check your Statsig console to see the experiment: https://console.statsig.com/experiments`);
 
     } catch (error) {
-      console.error('❌ Experiment workflow failed:', error);
-      process.exit(1);
+      journal.fail();
+      console.error('❌ Experiment workflow failed:', error instanceof Error ? error.message : error);
+      journal.describe().forEach(line => console.error(`  ${line}`));
+      console.error(`\n💡 Fix the problem and re-run with: npm run experiment create ${experimentKey} -- --resume`);
+      throw error;
+    }
+  }
+
+  /**
+   * Open (or create) the run journal; returns null when there is nothing to do
+   */
+  private openJournal(experimentKey: string, options: RunExperimentOptions): RunJournal | null {
+    const existing = RunJournal.load(this.projectRoot, experimentKey);
+
+    if (!existing || existing.status === 'rolled_back') {
+      return RunJournal.create(this.projectRoot, experimentKey);
+    }
+
+    if (existing.isComplete()) {
+      console.log(`✅ Experiment ${experimentKey} was already created; nothing to do.`);
+      this.printRunSummary(existing);
+      return null;
+    }
+
+    if (!options.resume) {
+      throw new Error(
+        `A previous run of ${experimentKey} did not finish (journal: ${existing.path}). ` +
+        `Re-run with --resume to continue from the failed step.`
+      );
     }
+
+    console.log(`🔁 Resuming experiment workflow from journal: ${existing.path}`);
+    return existing;
+  }
+
+  /**
+   * Print the code changes as a diff and type-check them without writing anything
+   */
+  async previewCodeChanges(contract: ExperimentContract): Promise<void> {
+    console.log('🔍 Dry run: computing code changes in memory (no git, Vercel or Statsig calls)');
+
+    const plans = await this.codeGenerator.planCodeChanges(contract);
+    const failed = plans.filter(plan => !plan.success);
+
+    if (failed.length > 0) {
+      console.error('❌ Some code changes failed:');
+      failed.forEach(plan => console.error(`  - ${plan.file}: ${plan.errors.join(', ')}`));
+      throw new Error('Code changes failed');
+    }
+
+    // Later changes to the same file build on earlier ones; diff first vs last
+    const files = new Map<string, { original: string; modified: string }>();
+    plans.forEach(plan => {
+      const existing = files.get(plan.file);
+      files.set(plan.file, { original: existing ? existing.original : plan.original, modified: plan.modified });
+    });
+
+    const colorize = shouldColorize();
+    const overrides = new Map<string, string>();
+    files.forEach(({ original, modified }, file) => {
+      const diff = createUnifiedDiff(file, original, modified);
+      if (!diff) {
+        console.log(`\n⏭️  ${file}: no changes`);
+        return;
+      }
+      console.log(`\n${colorize ? colorizeDiff(diff) : diff}`);
+      overrides.set(join(this.projectRoot, file), modified);
+    });
+
+    if (overrides.size === 0) {
+      console.log('\n✅ Dry run complete: nothing to change');
+      return;
+    }
+
+    console.log('\n🔍 Type-checking modified files...');
+    const typeCheck = typeCheckWithOverrides(this.projectRoot, overrides);
+    if (!typeCheck.success) {
+      console.error('❌ Type check failed:');
+      typeCheck.errors.forEach(error => console.error(`  - ${error}`));
+      throw new Error('Generated code does not type-check');
+    }
+
+    console.log(`✅ Dry run complete: ${overrides.size} file(s) would change and type-check cleanly`);
+  }
+
+  /**
+   * Undo a (partially) applied experiment, newest step first
+   */
+  async rollbackExperiment(experimentKey: string, contractPath?: string): Promise<RollbackAction[]> {
+    console.log(`⏪ Rolling back experiment: ${experimentKey}`);
+
+    const contract = await this.loadContract(experimentKey, contractPath);
+    const journal = RunJournal.load(this.projectRoot, experimentKey);
+    const branchName = contract.branchConfig.branchName;
+    const baseBranch = contract.branchConfig.createFromBranch;
+    const actions: RollbackAction[] = [];
+
+    const record = async (action: string, run: () => Promise<RollbackAction['status'] | string>) => {
+      try {
+        const outcome = await run();
+        const status = outcome === 'skipped' || outcome === 'done' ? outcome : 'done';
+        actions.push({ action, status, detail: outcome === status ? '' : outcome });
+      } catch (error) {
+        actions.push({ action, status: 'failed', detail: error instanceof Error ? error.message : String(error) });
+      }
+    };
+
+    // Statsig: archive the experiment
+    await record('Archive Statsig experiment', async () => {
+      if (journal && !journal.isStepDone('create')) {
+        return 'skipped';
+      }
+      const experimentId = journal?.getOutput('create').experimentId || experimentKey;
+      await this.statsigAPI.archiveExperiment(experimentId);
+      return experimentId;
+    });
+
+    // Vercel: cancel the preview deployment
+    await record('Cancel preview deployment', async () => {
+      const deploymentId = journal?.getOutput('deploy').deploymentId;
+      if (!deploymentId) {
+        return 'skipped';
+      }
+      if (!(await getVercelClient().cancelDeployment(deploymentId))) {
+        throw new Error(`Vercel refused to cancel deployment ${deploymentId}`);
+      }
+      return deploymentId;
+    });
+
+    // GitHub: delete the remote branch
+    await record('Delete remote branch', async () => {
+      // Nothing was pushed before the commit step
+      if (journal && !journal.isStepDone('commit')) {
+        return 'skipped';
+      }
+      if (!(await getGitHubClient().deleteBranch(branchName))) {
+        throw new Error(`GitHub refused to delete ${branchName}`);
+      }
+      return branchName;
+    });
+
+    // Git: leave the experiment branch, discarding uncommitted experiment edits
+    // so the checkout is not blocked (committed ones stay on the branch)
+    const onExperimentBranch = this.currentBranch() === branchName;
+    await record(`Check out ${baseBranch}`, async () => {
+      if (!onExperimentBranch) {
+        return 'skipped';
+      }
+      contract.codeChanges
+        .filter(codeChange => this.differsFromHead(codeChange.file))
+        .forEach(codeChange => {
+          execSync(`git checkout HEAD -- "${codeChange.file}"`, { cwd: this.projectRoot, stdio: 'pipe' });
+        });
+      execSync(`git checkout ${baseBranch}`, { cwd: this.projectRoot, stdio: 'pipe' });
+      return baseBranch;
+    });
+
+    // Working tree: restore modified files from their rollback copies
+    const codeGenerator = new CodeGenerator(this.projectRoot);
+    for (const codeChange of contract.codeChanges) {
+      await record(`Restore ${codeChange.file}`, async () => {
+        const filePath = join(this.projectRoot, codeChange.file);
+        if (!existsSync(`${filePath}.rollback`)) {
+          return 'skipped';
+        }
+        await codeGenerator.restoreFromRollback(filePath);
+        return 'done';
+      });
+    }
+
+    await record('Delete local branch', async () => {
+      if (!this.gitBranchExists(branchName)) {
+        return 'skipped';
+      }
+      execSync(`git branch -D ${branchName}`, { cwd: this.projectRoot, stdio: 'pipe' });
+      return branchName;
+    });
+
+    // A failed action keeps the journal as is, so a rerun retries it
+    if (actions.every(({ status }) => status !== 'failed')) {
+      journal?.markRolledBack();
+    }
+
+    console.log(`\n⏪ Rollback report for ${experimentKey}:`);
+    actions.forEach(({ action, status, detail }) => {
+      const icon = { done: '✅', skipped: '⏭️ ', failed: '❌' }[status];
+      console.log(`  ${icon} ${action}${detail ? ` — ${detail}` : ''}`);
+    });
+
+    return actions;
+  }
+
+  /**
+   * Make a variant the default in code, open a PR, record the decision in
+   * Statsig and delete the experiment branch once the PR is merged. Progress is
+   * kept in .experiments/<key>/decision.json, so re-running continues.
+   */
+  async shipExperiment(experimentKey: string, variantKey: string, options: ShipOptions = {}): Promise<ShipDecision> {
+    const contract = await this.loadContract(experimentKey);
+    const variant = contract.variants[variantKey];
+    if (!variant) {
+      throw new Error(`Unknown variant '${variantKey}'. Use one of: ${Object.keys(contract.variants).join(', ')}`);
+    }
+
+    const existing = loadShipDecision(this.projectRoot, experimentKey);
+    if (existing && existing.variant !== variantKey) {
+      throw new Error(`${experimentKey} was already shipped with variant '${existing.variant}' (${existing.decidedAt})`);
+    }
+
+    const decision: ShipDecision = existing || {
+      experimentKey,
+      variant: variantKey,
+      variantName: variant.name,
+      reason: options.reason || `Ship ${variant.name}`,
+      decidedAt: new Date().toISOString(),
+    };
+    saveShipDecision(this.projectRoot, decision);
+    console.log(`🚢 Shipping ${experimentKey}: ${variant.name} (${variantKey})`);
+
+    const branchName = contract.branchConfig.branchName;
+    const baseBranch = contract.branchConfig.targetBranch;
+
+    // 1. Replace the experiment blocks with the shipped values on the experiment branch
+    if (!decision.commit) {
+      if (!this.gitBranchExists(branchName)) {
+        throw new Error(`Branch ${branchName} not found; ship works on the experiment branch`);
+      }
+      this.checkoutBranch(branchName);
+
+      const plans = await this.codeGenerator.planShipChanges(contract, variantKey, file => this.fileAt(baseBranch, file));
+      const failed = plans.filter(plan => !plan.success);
+      if (failed.length > 0) {
+        failed.forEach(plan => console.error(`  - ${plan.file}: ${plan.errors.join(', ')}`));
+        throw new Error('Could not remove the experiment code');
+      }
+
+      const changed = plans.filter(plan => plan.modified !== plan.original);
+      changed.forEach(plan => {
+        writeFileSync(join(this.projectRoot, plan.file), plan.modified);
+        plan.changes.forEach(change => console.log(`✅ ${plan.file}: ${change}`));
+      });
+
+      if (changed.length > 0) {
+        // Argument arrays, not a shell: variant names are free text
+        execFileSync('git', ['add', '--', ...changed.map(plan => plan.file)], { cwd: this.projectRoot, stdio: 'pipe' });
+        execFileSync('git', ['commit', '-m', `feat(experiment): ship ${experimentKey} (${variant.name})`], {
+          cwd: this.projectRoot,
+          stdio: 'inherit',
+        });
+      } else {
+        console.log(`⚠️  No experiment code left to remove; pushing existing commits`);
+      }
+      execSync(`git push -u origin ${branchName}`, { cwd: this.projectRoot, stdio: 'inherit' });
+
+      decision.commit = execSync('git rev-parse HEAD', { cwd: this.projectRoot, encoding: 'utf8' }).trim();
+      saveShipDecision(this.projectRoot, decision);
+    }
+
+    // 2. Open a PR (or note the decision on the experiment PR)
+    const githubClient = getGitHubClient();
+    if (!decision.prNumber) {
+      const body = `## Ship \`${experimentKey}\`: ${variant.name}
+
+${decision.reason}
+
+The experiment code is removed and \`${variantKey}\` parameters are now the defaults:
+
+${Object.keys(variant.parameters).map(name => `- \`${name}\`: \`${JSON.stringify(variant.parameters[name])}\``).join('\n')}
+
+Merging this PR concludes the experiment; \`${branchName}\` is deleted afterwards.`;
+
+      const existingPR = await githubClient.findExistingPR(branchName, baseBranch);
+      const prResult = existingPR || await githubClient.createPullRequest({
+        title: `feat(experiment): ship ${experimentKey} (${variant.name})`,
+        body,
+        head: branchName,
+        base: baseBranch,
+        labels: ['experiment', 'ship', `exp-${experimentKey}`],
+      });
+      if (!prResult.success || !prResult.pr) {
+        throw new Error(`Failed to create PR: ${prResult.error}`);
+      }
+      if (existingPR) {
+        await githubClient.addComment(existingPR.pr!.number, body);
+      }
+
+      decision.prNumber = prResult.pr.number;
+      decision.prUrl = prResult.pr.html_url;
+      saveShipDecision(this.projectRoot, decision);
+      console.log(`✅ ${existingPR ? 'Updated' : 'Created'} PR #${decision.prNumber}: ${decision.prUrl}`);
+    }
+
+    // 3. Conclude the experiment in Statsig
+    if (!decision.statsigDecided) {
+      const experimentId = RunJournal.load(this.projectRoot, experimentKey)?.getOutput('create').experimentId || experimentKey;
+      await this.statsigAPI.makeDecision(experimentId, variantKey, decision.reason);
+      decision.statsigDecided = true;
+      saveShipDecision(this.projectRoot, decision);
+    }
+
+    // 4. Delete the experiment branch once the PR is merged
+    if (!decision.branchDeleted) {
+      if (options.merge && !(await githubClient.mergePR(decision.prNumber))) {
+        throw new Error(`GitHub refused to merge PR #${decision.prNumber}`);
+      }
+
+      const prStatus = await githubClient.getPRStatus(decision.prNumber);
+      if (prStatus?.merged) {
+        if (this.currentBranch() === branchName) {
+          execSync(`git checkout ${baseBranch}`, { cwd: this.projectRoot, stdio: 'pipe' });
+        }
+        if (this.gitBranchExists(branchName)) {
+          execSync(`git branch -D ${branchName}`, { cwd: this.projectRoot, stdio: 'pipe' });
+        }
+        if (!(await githubClient.deleteBranch(branchName))) {
+          throw new Error(`GitHub refused to delete ${branchName}`);
+        }
+        decision.branchDeleted = true;
+        saveShipDecision(this.projectRoot, decision);
+        console.log(`✅ Deleted branch ${branchName}`);
+      } else if (prStatus) {
+        console.log(`⏳ PR #${decision.prNumber} is not merged yet; re-run ship after merging to delete ${branchName}`);
+      } else {
+        console.log(`⚠️  Could not read PR #${decision.prNumber}; re-run ship after merging to delete ${branchName}`);
+      }
+    }
+
+    console.log(`🎉 ${experimentKey} shipped with ${variant.name}`);
+    return decision;
+  }
+
+  /**
+   * Snapshot target files before the code generator touches them
+   */
+  private async createRollbacks(contract: ExperimentContract): Promise<void> {
+    const codeGenerator = new CodeGenerator(this.projectRoot);
+
+    for (const codeChange of contract.codeChanges) {
+      const filePath = join(this.projectRoot, codeChange.file);
+      // Keep the first snapshot so resumed runs never overwrite the original
+      if (existsSync(filePath) && !existsSync(`${filePath}.rollback`)) {
+        await codeGenerator.createRollback(filePath, readFileSync(filePath, 'utf-8'));
+      }
+    }
+  }
+
+  /**
+   * Print the outputs recorded in the journal
+   */
+  private printRunSummary(journal: RunJournal): void {
+    console.log(`📊 Experiment ID: ${journal.getOutput('create').experimentId}`);
+    console.log(`🌿 Branch: ${journal.getOutput('branch').branchName}`);
+    console.log(`🔗 Preview URL: ${journal.getOutput('deploy').previewUrl}`);
+    if (journal.getOutput('pr').prUrl) {
+      console.log(`🔀 Pull Request: ${journal.getOutput('pr').prUrl}`);
+    }
+  }
+
+  /**
+   * Preview URL used when no deployment is available
+   */
+  private fallbackPreviewUrl(branchName: string): string {
+    return `https://${branchName.replace(/[^a-z0-9-]/gi, '-')}-dh25-demo-site.vercel.app`;
   }
 
   /**
    * Load and validate experiment contract
    */
   private async loadContract(experimentKey: string, contractPath?: string): Promise<ExperimentContract> {
-    const contractFile = contractPath || join(this.projectRoot, 'contract', `${experimentKey}.json`);
+    const contractFile = contractPath || findContractFile(this.projectRoot, experimentKey);
     
-    if (!existsSync(contractFile)) {
-      console.log(`📝 Contract file not found. Creating default contract: ${contractFile}`);
-      const defaultContract = createDefaultContract(experimentKey);
-      
-      // Write default contract to file
-      const fs = await import('fs');
-      fs.writeFileSync(contractFile, JSON.stringify(defaultContract, null, 2));
-      console.log(`✅ Created default contract: ${contractFile}`);
+    if (!contractFile || !existsSync(resolve(this.projectRoot, contractFile))) {
+      throw new Error(
+        `Contract file not found: ${contractFile || `contract/${experimentKey}.json`}. Run 'npm run experiment init ${experimentKey}' to create one.`
+      );
     }
 
-    const contractContent = readFileSync(contractFile, 'utf-8');
-    const contractData = JSON.parse(contractContent);
-    
-    // Validate contract
-    return validateContract(contractData);
+    // Validate contract (older schema versions are migrated in memory)
+    const { contract, migratedFrom } = loadContractFile(this.projectRoot, contractFile);
+    if (migratedFrom !== undefined) {
+      console.warn(`⚠️  Contract uses schema v${migratedFrom}; run 'npm run experiment migrate ${experimentKey}' to upgrade the file`);
+    }
+    return contract;
   }
 
   /**
@@ -171,15 +630,28 @@ class ExperimentRunner {
   }
 
   /**
-   * Commit and push changes
+   * Check out an existing experiment branch
    */
-  private async commitAndPushChanges(contract: ExperimentContract): Promise<void> {
+  private checkoutBranch(branchName: string): void {
+    try {
+      execSync(`git checkout ${branchName}`, { stdio: 'inherit' });
+    } catch (error) {
+      throw new Error(`Failed to checkout branch: ${error}`);
+    }
+  }
+
+  /**
+   * Commit and push changes (returns the pushed commit hash)
+   */
+  private async commitAndPushChanges(contract: ExperimentContract): Promise<string> {
     try {
       // Add all changes
       execSync('git add .', { stdio: 'inherit' });
       
-      // Commit with descriptive message
-      const commitMessage = `feat(experiment): implement ${contract.experimentKey}
+      // Nothing staged means a previous attempt already committed
+      if (this.hasStagedChanges()) {
+        // Commit with descriptive message
+        const commitMessage = `feat(experiment): implement ${contract.experimentKey}
 
 ${contract.description || 'Experiment implementation'}
 
@@ -188,20 +660,39 @@ ${contract.description || 'Experiment implementation'}
 - Variants: ${Object.keys(contract.variants).join(', ')}
 - Files modified: ${contract.codeChanges.map(c => c.file).join(', ')}`;
       
-      execSync(`git commit -m "${commitMessage}"`, { stdio: 'inherit' });
+        execSync(`git commit -m "${commitMessage}"`, { stdio: 'inherit' });
+      } else {
+        console.log(`⚠️  No new changes to commit; pushing existing commits`);
+      }
       
       // Push branch
       execSync(`git push -u origin ${contract.branchConfig.branchName}`, { stdio: 'inherit' });
-      
+
+      return execSync('git rev-parse HEAD', { encoding: 'utf8' }).trim();
     } catch (error) {
       throw new Error(`Failed to commit/push changes: ${error}`);
     }
   }
 
+  /**
+   * Check whether the index has staged changes
+   */
+  private hasStagedChanges(): boolean {
+    try {
+      execSync('git diff --cached --quiet', { stdio: 'pipe' });
+      return false;
+    } catch {
+      return true;
+    }
+  }
+
   /**
    * Wait for Vercel deployment
    */
-  private async waitForDeployment(branchName: string, contract: ExperimentContract): Promise<string> {
+  private async waitForDeployment(
+    branchName: string,
+    contract: ExperimentContract
+  ): Promise<{ url: string; deploymentId?: string }> {
     console.log(`⏳ Waiting for Vercel deployment...`);
     
     try {
@@ -210,16 +701,16 @@ ${contract.description || 'Experiment implementation'}
       
       if (result.success && result.url) {
         console.log(`✅ Deployment ready at: ${result.url}`);
-        return result.url;
+        return { url: result.url, deploymentId: result.deployment?.id };
       } else {
         throw new Error(`Deployment failed: ${result.error}`);
       }
     } catch (error) {
       console.error('❌ Vercel deployment failed:', error);
       // Fallback to mock URL for development
-      const fallbackUrl = `https://${branchName.replace(/[^a-z0-9-]/gi, '-')}-dh25-demo-site.vercel.app`;
+      const fallbackUrl = this.fallbackPreviewUrl(branchName);
       console.log(`⚠️  Using fallback URL: ${fallbackUrl}`);
-      return fallbackUrl;
+      return { url: fallbackUrl };
     }
   }
 
@@ -253,6 +744,36 @@ ${contract.description || 'Experiment implementation'}
     }
   }
 
+  /**
+   * Name of the checked-out branch
+   */
+  private currentBranch(): string {
+    return execSync('git rev-parse --abbrev-ref HEAD', { cwd: this.projectRoot, encoding: 'utf8' }).trim();
+  }
+
+  /**
+   * Check whether a file's working copy differs from HEAD
+   */
+  private differsFromHead(file: string): boolean {
+    try {
+      execSync(`git diff --quiet HEAD -- "${file}"`, { cwd: this.projectRoot, stdio: 'pipe' });
+      return false;
+    } catch {
+      return true;
+    }
+  }
+
+  /**
+   * A file's contents on another branch (undefined when it does not exist there)
+   */
+  private fileAt(branchName: string, file: string): string | undefined {
+    try {
+      return execSync(`git show "${branchName}:./${file}"`, { cwd: this.projectRoot, encoding: 'utf8', stdio: 'pipe' });
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Check if git branch exists
    */
@@ -270,11 +791,11 @@ ${contract.description || 'Experiment implementation'}
  * CLI interface
  */
 async function main() {
-  const args = process.argv.slice(2);
+  const { positionals: args, flags } = parseArgs(process.argv.slice(2), ['resume', 'dry-run']);
   
   if (args.length === 0) {
     console.log(`
-Usage: npm run experiment:create <experiment-key> [contract-path]
+Usage: npm run experiment:create <experiment-key> [contract-path] [--resume] [--dry-run] [--backend mcp|console|fake]
 
 Examples:
   npm run experiment:create prime_banner
@@ -286,9 +807,15 @@ This will:
 3. Apply code changes based on contract
 4. Commit and push changes
 5. Wait for Vercel deployment
-6. Create experiment in Statsig
-7. Configure targeting rules
-8. Start experiment (if auto-start enabled)
+6. Create or update the contract's feature gates
+7. Create experiment in Statsig
+8. Configure targeting rules
+9. Open a pull request
+10. Start experiment (if auto-start enabled)
+
+Progress is journaled in .experiments/<experiment-key>/journal.json.
+Use --resume to continue a failed run; re-running a finished run is a no-op.
+Use --dry-run to preview the code changes as a diff without touching git, Vercel or Statsig.
 `);
     process.exit(1);
   }
@@ -296,13 +823,31 @@ This will:
   const experimentKey = args[0];
   const contractPath = args[1];
 
-  const runner = new ExperimentRunner();
-  await runner.runExperiment(experimentKey, contractPath);
+  const backend = createStatsigBackend(resolveBackendKind(flags.backend));
+  setStatsigBackend(backend);
+
+  const runner = new ExperimentRunner(backend);
+
+  try {
+    await runner.runExperiment(experimentKey, contractPath, {
+      resume: flags.resume === true,
+      dryRun: flags['dry-run'] === true,
+    });
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  } finally {
+    await backend.close();
+  }
 }
 
 // Run if called directly
 if (import.meta.url === `file://${process.argv[1]}`) {
-  main().catch(console.error);
+  main().catch(error => {
+    // e.g. an unknown --backend or a backend missing its credentials
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exitCode = 1;
+  });
 }
 
 export { ExperimentRunner };
@@ -0,0 +1,179 @@
+#!/usr/bin/env tsx
+
+/**
+ * Statsig Backend Smoke Test
+ * Runs one experiment lifecycle through StatsigAPI against the offline fake and
+ * the stub MCP server (over stdio), so both keep honouring the StatsigBackend
+ * contract. Nothing touches a real Statsig project or .experiments/.
+ *
+ * Usage:
+ *   tsx scripts/smoke-statsig-backends.ts
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StatsigAPI } from './lib/statsig-api.js';
+import { createMCPClient } from './lib/mcp-client.js';
+import { FakeStatsigBackend } from './lib/fake-statsig-backend.js';
+import type { StatsigBackend } from './lib/statsig-backend.js';
+import { diffExperimentConfig, diffGateConfig } from './lib/config-drift.js';
+import { findContractFile, loadContractFile } from './lib/contract-loader.js';
+import { validateContract, type ExperimentContract, type FeatureGate } from './lib/contract-schema.js';
+
+/**
+ * prime_banner under another key, outside any layer and with one gate
+ */
+function smokeContract(): ExperimentContract {
+  const contractPath = findContractFile(process.cwd(), 'prime_banner');
+  if (!contractPath) {
+    throw new Error('Contract file not found: contract/prime_banner');
+  }
+  const { contract } = loadContractFile(process.cwd(), contractPath);
+
+  return validateContract({
+    ...contract,
+    experimentKey: 'smoke_banner',
+    branchConfig: { ...contract.branchConfig, branchName: 'exp/smoke_banner' },
+    layer: undefined,
+    gates: [{
+      name: 'smoke_gate',
+      passPercentage: 50,
+      rules: [{
+        name: 'Prime tier',
+        conditions: [{ type: 'custom_field', field: 'tier', operator: 'equals', targetValue: 'prime' }],
+      }],
+    }],
+  });
+}
+
+/**
+ * Experiment lifecycle every backend must support; returns the failed steps
+ */
+async function runLifecycle(name: string, backend: StatsigBackend, contract: ExperimentContract): Promise<string[]> {
+  const api = new StatsigAPI(backend);
+  const failures: string[] = [];
+  const gate: FeatureGate = contract.gates[0];
+  let experimentId = contract.experimentKey;
+
+  const step = async (label: string, run: () => Promise<string | void>) => {
+    try {
+      const problem = await run();
+      if (problem) throw new Error(problem);
+      console.log(`  ✅ ${label}`);
+    } catch (error) {
+      failures.push(`${name}: ${label}`);
+      console.log(`  ❌ ${label} — ${error instanceof Error ? error.message : error}`);
+    }
+  };
+  const drift = async () => {
+    const differences = diffExperimentConfig(api.buildContractConfig(contract), await api.getExperiment(experimentId));
+    return differences.map(difference => difference.field);
+  };
+
+  console.log(`\n🔍 ${name}`);
+
+  await step('create and target the experiment', async () => {
+    experimentId = await api.createExperiment(contract);
+    await api.updateExperimentTargeting(experimentId, contract);
+  });
+  await step('round-trip the contract configuration', async () => {
+    const fields = await drift();
+    if (fields.length > 0) return `differs in ${fields.join(', ')}`;
+  });
+  await step('list the experiment', async () => {
+    const experiments = await api.listExperiments();
+    if (!experiments.some(experiment => (experiment.id || experiment.name) === experimentId)) {
+      return `${experimentId} missing from the list`;
+    }
+  });
+  await step('create, then update a gate', async () => {
+    const first = await api.upsertGate(gate);
+    const second = await api.upsertGate(gate);
+    if (first !== 'created' || second !== 'updated') return `upserts returned ${first}, ${second}`;
+
+    const stored = await api.getGate(gate.name);
+    if (!stored) return `${gate.name} not found after upsert`;
+    const differences = diffGateConfig(api.buildGateConfig(gate), stored);
+    if (differences.length > 0) return `differs in ${differences.map(difference => difference.field).join(', ')}`;
+  });
+  await step('report a missing gate as null', async () => {
+    if ((await api.getGate('smoke_missing_gate')) !== null) return 'expected null';
+  });
+  await step('start the experiment', async () => {
+    await api.startExperiment(experimentId);
+    const status = await api.getExperimentStatus(experimentId);
+    if (status !== 'active') return `status is ${status}`;
+  });
+  await step('change only the allocation', async () => {
+    await api.updateAllocation(experimentId, 25);
+    const fields = await drift();
+    if (fields.join() !== 'allocation') return `differs in ${fields.join(', ') || 'nothing'}`;
+  });
+  await step('fetch results by variant key', async () => {
+    const results = await api.getExperimentResults(experimentId, 'control', 'treatment');
+    if (!results || results.test !== 'treatment') return `unexpected results ${JSON.stringify(results)}`;
+  });
+  await step('record a decision', async () => {
+    await api.makeDecision(experimentId, 'treatment', 'Smoke test');
+    const status = await api.getExperimentStatus(experimentId);
+    if (status !== 'decision_made') return `status is ${status}`;
+  });
+  await step('archive the experiment', async () => {
+    await api.archiveExperiment(experimentId);
+    const status = await api.getExperimentStatus(experimentId);
+    if (status !== 'archived') return `status is ${status}`;
+  });
+
+  return failures;
+}
+
+/**
+ * Main entry point
+ */
+async function main(): Promise<void> {
+  const contract = smokeContract();
+  const workDir = mkdtempSync(join(tmpdir(), 'statsig-smoke-'));
+  const failures: string[] = [];
+
+  try {
+    const fake = new FakeStatsigBackend(join(workDir, 'state.json'));
+    failures.push(...(await runLifecycle('fake backend', fake, contract)));
+    await fake.close();
+
+    // The MCP client reads its server entry from MCP_CONFIG_PATH when it connects
+    const mcpConfigPath = join(workDir, 'mcp.json');
+    writeFileSync(mcpConfigPath, JSON.stringify({
+      mcpServers: {
+        'statsig-local': { command: 'npx', args: ['tsx', join(process.cwd(), 'scripts', 'mcp-stub-server.ts')] },
+      },
+    }));
+    process.env.MCP_CONFIG_PATH = mcpConfigPath;
+    process.env.STATSIG_MCP_SERVER = 'statsig-local';
+
+    const mcp = createMCPClient();
+    try {
+      failures.push(...(await runLifecycle('mcp backend (stub server over stdio)', mcp, contract)));
+    } finally {
+      await mcp.close();
+    }
+  } finally {
+    rmSync(workDir, { recursive: true, force: true });
+  }
+
+  if (failures.length > 0) {
+    console.error(`\n❌ ${failures.length} smoke check(s) failed:`);
+    failures.forEach(failure => console.error(`  - ${failure}`));
+    process.exitCode = 1;
+    return;
+  }
+  console.log('\n✅ All Statsig backend smoke checks passed');
+}
+
+// Run if called directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(error => {
+    console.error('❌ Smoke test failed:', error);
+    process.exitCode = 1;
+  });
+}
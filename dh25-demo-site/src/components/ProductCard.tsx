@@ -3,7 +3,8 @@
 import Link from 'next/link';
 import { Product, CartItem, logExperimentExposure } from '@/lib/analytics';
 import VariantCTA from './VariantCTA';
-import { getExperiment, logExposure } from '../lib/statsigClient';
+import { logExposure } from '../lib/statsigClient';
+import { getTypedExperiment } from '../lib/experiments.generated';
 import { useState, useEffect } from 'react';
 
 interface ProductCardProps {
@@ -19,8 +20,8 @@ export default function ProductCard({ product, onAddToCart }: ProductCardProps)
     const fetchExperiment = async () => {
       try {
         // Experiment: prime_banner
-        const experiment = await getExperiment('prime_banner');
-        setShowBadge(experiment.metadata?.config?.showBadge ?? false);
+        const experiment = await getTypedExperiment('prime_banner');
+        setShowBadge(experiment.params.showBadge);
         setExperimentVariant(experiment.variant);
         
         // Log exposure when user sees this experiment
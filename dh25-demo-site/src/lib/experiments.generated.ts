@@ -0,0 +1,69 @@
+/**
+ * Typed experiment parameters
+ * Generated from the contract files in contract/ by `npm run experiment:types` — do not edit by hand
+ */
+
+import { getExperiment } from './statsigClient';
+
+/**
+ * Keys of all experiments with a contract
+ */
+export type ExperimentKey = 'prime_banner';
+
+/**
+ * Parameters for prime_banner (Prime Banner Test)
+ */
+export interface PrimeBannerParams {
+  showBadge: boolean;
+  badgeText: string;
+}
+
+/**
+ * Parameter interface for each experiment key
+ */
+export interface ExperimentParamsMap {
+  prime_banner: PrimeBannerParams;
+}
+
+/**
+ * Control variant values, used until Statsig returns a config
+ */
+export const EXPERIMENT_DEFAULTS: { [K in ExperimentKey]: ExperimentParamsMap[K] } = {
+  prime_banner: {
+    showBadge: false,
+    badgeText: '',
+  },
+};
+
+/**
+ * Experiment result with typed parameters
+ */
+export interface TypedExperiment<K extends ExperimentKey> {
+  key: K;
+  variant: string;
+  isExperimentGroup: boolean;
+  params: ExperimentParamsMap[K];
+}
+
+/**
+ * Get an experiment with parameters typed from its contract.
+ * Values whose type differs from the control default fall back to the default.
+ */
+export async function getTypedExperiment<K extends ExperimentKey>(experimentKey: K): Promise<TypedExperiment<K>> {
+  const experiment = await getExperiment(experimentKey);
+  const config: Record<string, unknown> = experiment.metadata?.config ?? {};
+  const params: Record<string, unknown> = { ...(EXPERIMENT_DEFAULTS[experimentKey] as object) };
+
+  Object.keys(config).forEach(name => {
+    if (!(name in params) || typeof config[name] === typeof params[name]) {
+      params[name] = config[name];
+    }
+  });
+
+  return {
+    key: experimentKey,
+    variant: experiment.variant,
+    isExperimentGroup: experiment.isExperimentGroup,
+    params: params as unknown as ExperimentParamsMap[K],
+  };
+}
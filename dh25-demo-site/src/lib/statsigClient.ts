@@ -122,6 +122,24 @@ class StatsigClient {
     }
   }
 
+  /**
+   * Check a feature gate (false when the client is not initialized, the gate
+   * is missing or the check fails)
+   */
+  async checkGate(gateName: string): Promise<boolean> {
+    if (!this.initialized) {
+      console.warn(`Statsig client not initialized, gate ${gateName} treated as failing`);
+      return false;
+    }
+
+    try {
+      return Statsig.checkGate(gateName);
+    } catch (error) {
+      console.error(`Error checking gate ${gateName}:`, error);
+      return false;
+    }
+  }
+
   /**
    * Log exposure event when user sees experiment
    */
@@ -247,6 +265,13 @@ export async function getExperimentParams(experimentKey: string): Promise<Experi
   return statsigClient.getExperimentParams(experimentKey);
 }
 
+/**
+ * Check a feature gate
+ */
+export async function checkGate(gateName: string): Promise<boolean> {
+  return statsigClient.checkGate(gateName);
+}
+
 /**
  * Log exposure event when user sees experiment
  */